@@ -0,0 +1,112 @@
+/// <reference types="node" />
+import { constants, deflateSync, gunzipSync, gzipSync, inflateSync } from 'zlib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { compress, CompressionFormat, decompress, fromBase64, toBase64 } from '../compression';
+
+const encoder = new TextEncoder();
+
+/**
+ * Makes bytes that barely compress, the same on every run
+ */
+const randomBytes = (length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  let seed = 42;
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    bytes[i] = seed >>> 24;
+  }
+  return bytes;
+};
+
+/**
+ * Makes saved-state-like JSON larger than the 32KB window, so matches reach back across it
+ */
+const largeJson = (): Uint8Array => {
+  const items = Array.from({ length: 3000 }, (_, i) => ({ id: `item-${i}`, title: `Item ${i % 37}`, done: i % 3 === 0 }));
+  return encoder.encode(JSON.stringify({ items }));
+};
+
+/**
+ * Checks two byte arrays are equal, faster than a deep equality check on large inputs
+ */
+const expectBytes = (actual: Uint8Array, expected: Uint8Array): void => {
+  expect(actual.length).toBe(expected.length);
+  expect(Buffer.compare(actual, expected)).toBe(0);
+};
+
+const inputs: Record<string, Uint8Array> = {
+  empty: new Uint8Array(0),
+  text: encoder.encode('{"title":"A short document","tags":["a","b"]}'),
+  'long runs': new Uint8Array(70000).fill(7),
+  random: randomBytes(5000),
+  'large JSON': largeJson()
+};
+
+const zlibCompress: Record<CompressionFormat, (data: Uint8Array, options?: object) => Uint8Array> = {
+  gzip: gzipSync,
+  deflate: deflateSync
+};
+
+const zlibDecompress: Record<CompressionFormat, (data: Uint8Array) => Uint8Array> = {
+  gzip: gunzipSync,
+  deflate: inflateSync
+};
+
+const formats: CompressionFormat[] = ['gzip', 'deflate'];
+
+describe('compression fallback', () => {
+  // Without the streams, compress and decompress use the built-in DEFLATE
+  beforeEach(() => {
+    vi.stubGlobal('CompressionStream', undefined);
+    vi.stubGlobal('DecompressionStream', undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe.each(formats)('%s', format => {
+    it.each(Object.keys(inputs))('round-trips %s', async name => {
+      const data = inputs[name];
+      const compressed = await compress(data, format);
+      expectBytes(await decompress(compressed, format), data);
+    });
+
+    it.each(Object.keys(inputs))('writes %s that zlib reads', async name => {
+      const data = inputs[name];
+      const compressed = await compress(data, format);
+      expectBytes(zlibDecompress[format](compressed), data);
+    });
+
+    it('compresses repeated data using back-references', async () => {
+      const data = inputs['large JSON'];
+      const compressed = await compress(data, format);
+      expect(compressed.length).toBeLessThan(data.length / 4);
+    });
+
+    it.each([
+      ['stored', { level: 0 }],
+      ['fixed Huffman', { strategy: constants.Z_FIXED }],
+      ['dynamic Huffman', {}]
+    ])('reads %s blocks written by zlib', async (_, options) => {
+      for (const data of Object.values(inputs)) {
+        const compressed = new Uint8Array(zlibCompress[format](data, options));
+        expectBytes(await decompress(compressed, format), data);
+      }
+    });
+
+    it('rejects corrupted data', async () => {
+      const compressed = await compress(inputs.text, format);
+      compressed[compressed.length - 5] ^= 0xff;
+      await expect(decompress(compressed, format)).rejects.toThrow();
+    });
+  });
+});
+
+describe('base64', () => {
+  it('round-trips every byte value', () => {
+    const data = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expectBytes(fromBase64(toBase64(data)), data);
+    expect(toBase64(data)).toBe(Buffer.from(data).toString('base64'));
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryAdapter, StorageAdapter } from '../index';
+import { createTestApp, stubBrowser } from './helpers';
+
+describe('delta saves', () => {
+  const destroyers: (() => void)[] = [];
+  let storage: StorageAdapter;
+
+  /**
+   * Opens the app in delta mode on the shared storage and loads its saved state
+   */
+  const openApp = async () => {
+    const app = createTestApp({ saveMode: 'delta', compactAfterPatches: 2 }, storage);
+    const store = app.useStore('doc', (): { title: string; byId: Record<string, number> } => ({ title: '', byId: {} }));
+    await store.$teraFileSync.setTeraReady();
+    destroyers.push(() => store.$teraFileSync.destroy());
+    return store;
+  };
+
+  const readPatchLog = async () => storage.read(await storage.resolveKey('test-patches'));
+  const readSavedState = async () => (await storage.read(await storage.resolveKey('test'))).state.doc;
+
+  beforeEach(() => {
+    stubBrowser();
+    storage = createMemoryAdapter();
+  });
+
+  afterEach(() => {
+    destroyers.splice(0).forEach(destroy => destroy());
+    vi.unstubAllGlobals();
+  });
+
+  it('appends saves to the patch log and replays them on load', async () => {
+    const store = await openApp();
+    store.title = 'First';
+    store.byId.a = 1;
+    store.byId.b = 2;
+    await store.$teraFileSync.saveState();
+    expect((await readPatchLog()).entries).toEqual([]);
+
+    store.title = 'Second';
+    delete store.byId.a;
+    await store.$teraFileSync.saveState();
+    store.byId.c = 3;
+    await store.$teraFileSync.saveState();
+
+    expect((await readPatchLog()).entries).toHaveLength(2);
+    expect(await readSavedState()).toEqual({ title: 'First', byId: { a: 1, b: 2 } });
+
+    const reopened = await openApp();
+    expect(reopened.title).toBe('Second');
+    expect(reopened.byId).toEqual({ b: 2, c: 3 });
+  });
+
+  it('compacts the patch log into a full save once it is full', async () => {
+    const store = await openApp();
+    for (const title of ['One', 'Two', 'Three', 'Four']) {
+      store.title = title;
+      await store.$teraFileSync.saveState();
+    }
+
+    // The first save is full, the next two are patches and the fourth compacts them
+    expect((await readPatchLog()).entries).toEqual([]);
+    expect(await readSavedState()).toEqual({ title: 'Four', byId: {} });
+
+    const reopened = await openApp();
+    expect(reopened.title).toBe('Four');
+  });
+});
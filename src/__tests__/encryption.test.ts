@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryAdapter, EncryptionOptions, StorageAdapter, useTeraSyncStatus } from '../index';
+import { createTestApp, stubBrowser, TestPluginOptions } from './helpers';
+
+const passphrases: Record<string, string> = { v1: 'correct horse', v2: 'battery staple' };
+
+describe('encryption', () => {
+  const destroyers: (() => void)[] = [];
+  let storage: StorageAdapter;
+
+  /**
+   * Opens the app encrypting with the given options on the shared storage, and loads its saved state
+   */
+  const openApp = async (encryption: EncryptionOptions, options: TestPluginOptions = {}) => {
+    // Few iterations keep key derivation fast, the saved iterations are what decryption uses
+    const app = createTestApp({ encryption: { iterations: 1000, ...encryption }, ...options }, storage);
+    const store = app.useStore('doc', (): { title: string } => ({ title: '' }));
+    await store.$teraFileSync.setTeraReady();
+    destroyers.push(() => store.$teraFileSync.destroy());
+    return { store, status: useTeraSyncStatus(app.pinia, 'test') };
+  };
+
+  const readSavedFile = async () => storage.read(await storage.resolveKey('test'));
+
+  beforeEach(() => {
+    stubBrowser();
+    storage = createMemoryAdapter();
+  });
+
+  afterEach(() => {
+    destroyers.splice(0).forEach(destroy => destroy());
+    vi.unstubAllGlobals();
+  });
+
+  it.each(['none', 'gzip'] as const)('saves ciphertext which loads back with the passphrase (compression %s)', async compression => {
+    const encryption: EncryptionOptions = { keyId: 'v1', getPassphrase: id => passphrases[id] };
+    const { store } = await openApp(encryption, { compression });
+    store.title = 'Top secret plan';
+    expect(await store.$teraFileSync.saveState()).toBe(true);
+
+    const saved = await readSavedFile();
+    expect(saved.encryption).toMatchObject({ algorithm: 'AES-GCM', keyId: 'v1' });
+    expect(JSON.stringify(saved)).not.toContain('Top secret plan');
+
+    const reopened = await openApp(encryption, { compression });
+    expect(reopened.store.title).toBe('Top secret plan');
+  });
+
+  it('fails to load with a wrong passphrase, blocking saves', async () => {
+    const { store } = await openApp({ keyId: 'v1', getPassphrase: id => passphrases[id] });
+    store.title = 'Top secret plan';
+    await store.$teraFileSync.saveState();
+
+    const reopened = await openApp({ keyId: 'v1', getPassphrase: () => 'wrong' });
+    expect(reopened.status.loadError?.reason).toBe('decryption');
+    expect(reopened.store.title).toBe('');
+    reopened.store.title = 'Overwritten';
+    expect(await reopened.store.$teraFileSync.saveState()).toBe(false);
+  });
+
+  it('re-saves with a rotated key, which loads back through its key id', async () => {
+    const encryption: EncryptionOptions = { keyId: 'v1', getPassphrase: id => passphrases[id] };
+    const { store } = await openApp(encryption);
+    store.title = 'Top secret plan';
+    await store.$teraFileSync.saveState();
+
+    expect(await store.$teraFileSync.rotateEncryptionKey('v2')).toBe(true);
+    expect((await readSavedFile()).encryption.keyId).toBe('v2');
+
+    // Configured with the old key id, the recorded one is still what decrypts
+    const reopened = await openApp(encryption);
+    expect(reopened.store.title).toBe('Top secret plan');
+  });
+});
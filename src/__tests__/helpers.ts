@@ -0,0 +1,69 @@
+import { createApp } from 'vue';
+import { createPinia, defineStore, Pinia, StateTree, Store } from 'pinia';
+import { vi } from 'vitest';
+import { createMemoryAdapter, createNoopNotifier, createTeraSyncPlugin, StorageAdapter, TeraPluginConfig } from '../index';
+
+/**
+ * @typedef {Object} TestPluginOptions
+ * @description Plugin options of a test app
+ */
+export type TestPluginOptions = Partial<Omit<TeraPluginConfig, 'keyPrefix' | 'isSeparateStateForEachUser'>>;
+
+/**
+ * @interface TestApp
+ * @description A Pinia instance with the plugin installed, saving to in-memory storage
+ */
+export interface TestApp {
+  pinia: Pinia;
+  storage: StorageAdapter;
+  /** Creates a store with the given initial state, returning it once installed */
+  useStore: <S extends StateTree>(id: string, state: () => S) => Store<string, S>;
+}
+
+/**
+ * Stubs the browser globals the plugin uses for timers and listeners
+ */
+export const stubBrowser = (): void => {
+  vi.stubGlobal('window', {
+    setTimeout,
+    clearTimeout,
+    setInterval,
+    clearInterval,
+    addEventListener: () => undefined,
+    removeEventListener: () => undefined
+  });
+  vi.stubGlobal('document', {
+    visibilityState: 'visible',
+    hasFocus: () => true,
+    addEventListener: () => undefined,
+    removeEventListener: () => undefined
+  });
+};
+
+/**
+ * Creates a Pinia app with the plugin installed, with auto-save, alerts, tab sync and notifications off unless
+ * the options turn them on
+ * @param {TestPluginOptions} [options={}] - Plugin options
+ * @param {StorageAdapter} [storage] - Storage to save to, shared between apps to simulate reloads or collaborators
+ * @returns {TestApp} The test app
+ */
+export const createTestApp = (options: TestPluginOptions = {}, storage: StorageAdapter = createMemoryAdapter()): TestApp => {
+  const pinia = createPinia();
+  createApp({}).use(pinia);
+  pinia.use(createTeraSyncPlugin('test', false, {
+    storage,
+    journalStorage: createMemoryAdapter(),
+    autoSaveIntervalMinutes: 0,
+    showInitialAlert: false,
+    enableCrossTabSync: false,
+    logLevel: 'silent',
+    notifier: createNoopNotifier(),
+    ...options
+  }));
+
+  return {
+    pinia,
+    storage,
+    useStore: <S extends StateTree>(id: string, state: () => S) => defineStore(id, { state })(pinia) as Store<string, S>
+  };
+};
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTestApp, stubBrowser, TestPluginOptions } from './helpers';
+
+/**
+ * Waits for the current group of changes to become an undo step
+ * @returns {Promise<void>} Resolves once the group is recorded
+ */
+const endGroup = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 10));
+
+/**
+ * @interface DocState
+ * @description State of the store used by the history tests
+ */
+interface DocState {
+  byId: Record<string, number>;
+  opt?: string;
+  ui: { panel: string; zoom: number };
+}
+
+describe('undo history', () => {
+  const destroyers: (() => void)[] = [];
+
+  /**
+   * Opens an app with history enabled, whose store doesn't save `ui.panel`
+   */
+  const openApp = async (options: TestPluginOptions = {}) => {
+    const app = createTestApp({
+      enableHistory: true,
+      historyGroupWindowMs: 0,
+      stores: { doc: { omit: ['ui.panel'] } },
+      ...options
+    });
+    const store = app.useStore('doc', (): DocState => ({ byId: { a: 1 }, opt: undefined, ui: { panel: 'list', zoom: 1 } }));
+    await store.$teraFileSync.setTeraReady();
+    destroyers.push(() => store.$teraFileSync.destroy());
+    return store;
+  };
+
+  beforeEach(stubBrowser);
+
+  afterEach(() => {
+    destroyers.splice(0).forEach(destroy => destroy());
+    vi.unstubAllGlobals();
+  });
+
+  it('removes nested keys added after the snapshot when undoing', async () => {
+    const store = await openApp();
+    store.byId.b = 2;
+    store.ui.zoom = 3;
+    await endGroup();
+
+    expect(await store.$teraFileSync.undo()).toBe(true);
+    expect(store.byId).toEqual({ a: 1 });
+    expect(store.ui.zoom).toBe(1);
+
+    expect(await store.$teraFileSync.redo()).toBe(true);
+    expect(store.byId).toEqual({ a: 1, b: 2 });
+    expect(store.ui.zoom).toBe(3);
+  });
+
+  it('clears top-level keys which were unset in the snapshot when undoing', async () => {
+    const store = await openApp();
+    store.opt = 'value';
+    await endGroup();
+
+    expect(await store.$teraFileSync.undo()).toBe(true);
+    expect(store.opt).toBeUndefined();
+    expect(await store.$teraFileSync.undo()).toBe(false);
+  });
+
+  it('keeps state which is not saved when undoing', async () => {
+    const store = await openApp();
+    store.byId.b = 2;
+    await endGroup();
+    store.ui.panel = 'grid';
+
+    await store.$teraFileSync.undo();
+    expect(store.byId).toEqual({ a: 1 });
+    expect(store.ui.panel).toBe('grid');
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryAdapter, StorageAdapter, useTeraSyncStatus } from '../index';
+import { createTestApp, stubBrowser, TestPluginOptions } from './helpers';
+
+/**
+ * Creates in-memory storage whose writes fail while `failing` is set
+ * @returns {Object} The storage and a switch for failing writes
+ */
+const createFlakyStorage = (): { storage: StorageAdapter; setFailing: (failing: boolean) => void } => {
+  const storage = createMemoryAdapter();
+  let failing = false;
+  return {
+    storage: {
+      ...storage,
+      write: (location, content) => failing ? Promise.reject(new Error('Network error')) : storage.write(location, content)
+    },
+    setFailing: value => {
+      failing = value;
+    }
+  };
+};
+
+describe('offline journal', () => {
+  const destroyers: (() => void)[] = [];
+  let journalStorage: StorageAdapter;
+
+  /**
+   * Opens the app on shared storage and loads its saved state, as a page load would
+   */
+  const openApp = async (storage: StorageAdapter, options: TestPluginOptions = {}) => {
+    const app = createTestApp({ journalStorage, ...options }, storage);
+    const store = app.useStore('doc', () => ({ count: 1 }));
+    await store.$teraFileSync.setTeraReady();
+    destroyers.push(() => store.$teraFileSync.destroy());
+    return { store, status: useTeraSyncStatus(app.pinia, 'test') };
+  };
+
+  beforeEach(() => {
+    stubBrowser();
+    journalStorage = createMemoryAdapter();
+  });
+
+  afterEach(() => {
+    destroyers.splice(0).forEach(destroy => destroy());
+    vi.unstubAllGlobals();
+  });
+
+  it('offers the changes of a failed save on the next load and restores them', async () => {
+    const { storage, setFailing } = createFlakyStorage();
+    const first = await openApp(storage);
+    await first.store.$teraFileSync.saveState();
+
+    setFailing(true);
+    first.store.count = 5;
+    expect(await first.store.$teraFileSync.saveState()).toBe(false);
+    setFailing(false);
+
+    const second = await openApp(storage);
+    expect(second.store.count).toBe(1);
+    expect(second.status.journaledChangesAvailable).toBe(true);
+
+    expect(await second.status.restoreJournaledChanges()).toBe(true);
+    expect(second.store.count).toBe(5);
+    expect(second.status.journaledChangesAvailable).toBe(false);
+    expect(await second.store.$teraFileSync.saveState()).toBe(true);
+
+    const third = await openApp(storage);
+    expect(third.store.count).toBe(5);
+    expect(third.status.journaledChangesAvailable).toBe(false);
+  });
+
+  it('forgets journaled changes once they are discarded', async () => {
+    const { storage, setFailing } = createFlakyStorage();
+    const first = await openApp(storage);
+    setFailing(true);
+    first.store.count = 5;
+    await first.store.$teraFileSync.saveState();
+    setFailing(false);
+
+    const second = await openApp(storage);
+    await second.status.discardJournaledChanges();
+    expect(second.status.journaledChangesAvailable).toBe(false);
+    expect(second.store.count).toBe(1);
+
+    const third = await openApp(storage);
+    expect(third.status.journaledChangesAvailable).toBe(false);
+  });
+
+  it('does not journal saves which fail validation', async () => {
+    const storage = createMemoryAdapter();
+    const validate = (state: any) => state.count < 10
+      ? { valid: true }
+      : { valid: false, issues: [{ path: ['count'], message: 'Too large' }] };
+    const first = await openApp(storage, { stores: { doc: { validate } } });
+    first.store.count = 50;
+    expect(await first.store.$teraFileSync.saveState()).toBe(false);
+
+    const second = await openApp(storage);
+    expect(second.status.journaledChangesAvailable).toBe(false);
+  });
+});
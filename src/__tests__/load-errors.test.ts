@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryAdapter, SAVE_STATUS, StorageAdapter, useTeraSyncStatus } from '../index';
+import { createTestApp, stubBrowser, TestPluginOptions } from './helpers';
+
+describe('failed loads', () => {
+  const destroyers: (() => void)[] = [];
+  let storage: StorageAdapter;
+
+  /**
+   * Opens the app on the shared storage and loads its saved state
+   */
+  const openApp = async (options: TestPluginOptions = {}) => {
+    const app = createTestApp(options, storage);
+    const store = app.useStore('doc', (): { count: number; byId: Record<string, number> } => ({ count: 1, byId: {} }));
+    await store.$teraFileSync.setTeraReady();
+    destroyers.push(() => store.$teraFileSync.destroy());
+    return { store, status: useTeraSyncStatus(app.pinia, 'test') };
+  };
+
+  beforeEach(() => {
+    stubBrowser();
+    storage = createMemoryAdapter();
+  });
+
+  afterEach(() => {
+    destroyers.splice(0).forEach(destroy => destroy());
+    vi.unstubAllGlobals();
+  });
+
+  it('blocks saving while the saved file is corrupt', async () => {
+    await storage.write(await storage.resolveKey('test'), { payload: 'not base64', encoding: 'gzip' });
+    const { store, status } = await openApp();
+
+    expect(status.loadError?.reason).toBe('corrupt');
+    expect(status.saveStatus).toBe(SAVE_STATUS.LOAD_FAILED);
+    store.count = 2;
+    expect(await store.$teraFileSync.saveState()).toBe(false);
+  });
+
+  it('blocks saving when loaded state fails to hydrate a store', async () => {
+    const first = await openApp();
+    first.store.count = 2;
+    await first.store.$teraFileSync.saveState();
+
+    const { store, status } = await openApp({ afterLoad: () => {
+      throw new Error('Unreadable state');
+    } });
+    expect(status.loadError?.reason).toBe('corrupt');
+    expect(await store.$teraFileSync.saveState()).toBe(false);
+  });
+
+  it('starts fresh from defaults, keeping a backup of the corrupt file', async () => {
+    const fileName = await storage.resolveKey('test');
+    const corrupt = { payload: 'not base64', encoding: 'gzip' };
+    await storage.write(fileName, corrupt);
+    const { store, status } = await openApp();
+    store.count = 3;
+    store.byId.a = 1;
+
+    const write = vi.spyOn(storage, 'write');
+    await status.startFresh();
+    expect(write).toHaveBeenCalledWith(expect.stringContaining('test-backup-'), corrupt);
+    expect(status.loadError).toBeNull();
+    expect(store.count).toBe(1);
+    expect(store.byId).toEqual({});
+    expect(status.saveStatus).toBe(SAVE_STATUS.SAVED);
+
+    const envelope = await storage.read(fileName);
+    expect(envelope.state).toEqual({});
+
+    store.count = 4;
+    expect(await store.$teraFileSync.saveState()).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryAdapter, SAVE_STATUS, StorageAdapter } from '../index';
+import { createTestApp, stubBrowser } from './helpers';
+
+describe('revisions', () => {
+  const destroyers: (() => void)[] = [];
+
+  /**
+   * Opens an app keeping three revisions and loads its saved state
+   */
+  const openApp = async (storage?: StorageAdapter) => {
+    const app = createTestApp({ revisionCount: 3 }, storage);
+    const store = app.useStore('doc', (): { byId: Record<string, number>; opt?: string } => ({ byId: { a: 1 }, opt: undefined }));
+    await store.$teraFileSync.setTeraReady();
+    destroyers.push(() => store.$teraFileSync.destroy());
+    return store;
+  };
+
+  beforeEach(stubBrowser);
+
+  afterEach(() => {
+    destroyers.splice(0).forEach(destroy => destroy());
+    vi.unstubAllGlobals();
+  });
+
+  it('restores exactly the saved revision, removing keys added after it', async () => {
+    const store = await openApp();
+    store.byId.a = 2;
+    await store.$teraFileSync.saveState();
+    store.byId.b = 3;
+    store.opt = 'added';
+    await store.$teraFileSync.saveState();
+
+    const [revision] = await store.$teraFileSync.listRevisions();
+    expect(await store.$teraFileSync.previewRevision(revision.id)).toEqual({ doc: { byId: { a: 2 } } });
+
+    await store.$teraFileSync.restoreRevision(revision.id);
+    expect(store.byId).toEqual({ a: 2 });
+    expect(store.opt).toBeUndefined();
+    expect(store.$teraFileSync.getSaveStatus()).toBe(SAVE_STATUS.UNSAVED);
+  });
+
+  it('lists revisions without creating storage locations', async () => {
+    const storage = createMemoryAdapter();
+    const resolveKey = vi.spyOn(storage, 'resolveKey');
+    const store = await openApp(storage);
+    resolveKey.mockClear();
+
+    expect(await store.$teraFileSync.listRevisions()).toEqual([]);
+    expect(resolveKey).not.toHaveBeenCalled();
+  });
+});
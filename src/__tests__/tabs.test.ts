@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTabCoordinator, TabCoordinator } from '../tabs';
+
+const HEARTBEAT_INTERVAL_MS = 2000;
+
+/** Lets BroadcastChannel deliver the messages posted so far */
+const deliverMessages = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 20));
+
+describe('tab leader election', () => {
+  let coordinators: TabCoordinator<unknown>[] = [];
+
+  const openTab = (channelName: string): TabCoordinator<unknown> => {
+    const coordinator = createTabCoordinator<unknown>(channelName, {
+      onMessage: () => undefined,
+      onLeaderChange: () => undefined,
+      onTabJoined: () => undefined
+    });
+    if (!coordinator) throw new Error('BroadcastChannel unavailable');
+    coordinators.push(coordinator);
+    return coordinator;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+  });
+
+  afterEach(() => {
+    coordinators.forEach(coordinator => coordinator.close());
+    coordinators = [];
+    vi.useRealTimers();
+  });
+
+  it('waits a heartbeat interval before a lone tab leads', async () => {
+    const tab = openTab('tabs-alone');
+    await deliverMessages();
+    expect(tab.isLeader()).toBe(false);
+
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+    expect(tab.isLeader()).toBe(true);
+  });
+
+  it('never lets a newly opened tab lead alongside the open one', async () => {
+    const first = openTab('tabs-pair');
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+    expect(first.isLeader()).toBe(true);
+
+    vi.advanceTimersByTime(100);
+    const second = openTab('tabs-pair');
+    expect(second.isLeader()).toBe(false);
+
+    await deliverMessages();
+    expect(second.isLeader()).toBe(false);
+
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+    await deliverMessages();
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+  });
+});
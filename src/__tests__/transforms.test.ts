@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StorageAdapter } from '../index';
+import { createTestApp, stubBrowser, TestPluginOptions } from './helpers';
+
+describe('save transforms', () => {
+  const destroyers: (() => void)[] = [];
+
+  /**
+   * Opens an app with a validated store holding a secret and loads its saved state
+   */
+  const openApp = async (options: TestPluginOptions = {}) => {
+    const app = createTestApp(options);
+    const store = app.useStore('doc', () => ({ title: 'Draft', secret: 'token' }));
+    await store.$teraFileSync.setTeraReady();
+    destroyers.push(() => store.$teraFileSync.destroy());
+    return { store, storage: app.storage };
+  };
+
+  /**
+   * Reads the saved state of the doc store
+   */
+  const readSaved = async (storage: StorageAdapter): Promise<any> => {
+    const envelope = await storage.read(await storage.resolveKey('test'));
+    return envelope.state.doc;
+  };
+
+  beforeEach(stubBrowser);
+
+  afterEach(() => {
+    destroyers.splice(0).forEach(destroy => destroy());
+    vi.unstubAllGlobals();
+  });
+
+  it('validates and saves the state returned by beforeSave', async () => {
+    const validate = vi.fn((state: any) => ({ valid: true, value: state }));
+    const { store, storage } = await openApp({
+      beforeSave: ({ secret, ...state }) => state,
+      stores: { doc: { validate } }
+    });
+
+    store.title = 'Final';
+    expect(await store.$teraFileSync.saveState()).toBe(true);
+
+    expect(validate).toHaveBeenLastCalledWith({ title: 'Final' });
+    expect(await readSaved(storage)).toEqual({ title: 'Final' });
+  });
+
+  it('rejects state which beforeSave made invalid', async () => {
+    const validate = (state: any) => typeof state.title === 'string'
+      ? { valid: true }
+      : { valid: false, issues: [{ path: ['title'], message: 'Required' }] };
+    const { store } = await openApp({
+      beforeSave: ({ title, ...state }) => state,
+      stores: { doc: { validate } }
+    });
+
+    store.secret = 'changed';
+    expect(await store.$teraFileSync.saveState()).toBe(false);
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * @constant {string}
+ * @description Key marking an encoded value with the name of its type handler
+ */
+const TYPE_KEY = '$type';
+
+/**
+ * @constant {string}
+ * @description Key holding the encoded data of a tagged value
+ */
+const VALUE_KEY = '$value';
+
+/**
+ * @constant {string}
+ * @description Tag used to escape plain objects which contain the type key themselves
+ */
+const ESCAPED_OBJECT_TYPE = 'Object';
+
+/**
+ * @interface TypeHandler
+ * @description Converts values of one type to and from JSON-safe data
+ */
+export interface TypeHandler<T = any> {
+  /** Unique name written into the encoded output */
+  name: string;
+  /** Whether a value is handled by this handler */
+  test: (value: any) => boolean;
+  /** Converts a value to JSON-safe data, using `encode` for any nested values */
+  encode: (value: T, encode: (value: any) => any) => any;
+  /** Restores a value from its data, using `decode` for any nested values */
+  decode: (data: any, decode: (value: any) => any) => T;
+}
+
+/**
+ * @interface ClassTypeOptions
+ * @description Options for registering a class with the codec
+ */
+export interface ClassTypeOptions<T> {
+  /** Name written into the encoded output (defaults to the class name) */
+  name?: string;
+  /** Converts an instance to plain data (defaults to its own enumerable properties) */
+  toData?: (instance: T) => any;
+  /** Restores an instance from plain data (defaults to assigning the data onto a new prototype instance) */
+  fromData?: (data: any) => T;
+}
+
+/**
+ * @interface Codec
+ * @description Serializes state to JSON-safe data with an extensible registry of types
+ */
+export interface Codec {
+  /** Registers a type handler, replacing any existing handler with the same name */
+  register: (handler: TypeHandler) => void;
+  /** Converts a value to JSON-safe data */
+  encode: (value: any) => any;
+  /** Restores a value from data produced by `encode` */
+  decode: (data: any) => any;
+}
+
+/**
+ * @constant {Function[]}
+ * @description Typed array constructors supported by the built-in handlers
+ */
+const TYPED_ARRAYS = [
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array
+];
+
+/**
+ * Creates the built-in type handlers
+ * @returns {TypeHandler[]} Handlers for Date, Map, Set, BigInt, RegExp, non-finite numbers and typed arrays
+ */
+const createBuiltInHandlers = (): TypeHandler[] => [
+  {
+    name: 'Date',
+    test: value => value instanceof Date,
+    encode: (value: Date) => isNaN(value.getTime()) ? null : value.toISOString(),
+    decode: data => new Date(data === null ? NaN : data)
+  },
+  {
+    name: 'Map',
+    test: value => value instanceof Map,
+    encode: (value: Map<any, any>, encode) => Array.from(value.entries()).map(([key, entry]) => [encode(key), encode(entry)]),
+    decode: (data: [any, any][], decode) => new Map(data.map(([key, entry]) => [decode(key), decode(entry)]))
+  },
+  {
+    name: 'Set',
+    test: value => value instanceof Set,
+    encode: (value: Set<any>, encode) => Array.from(value).map(encode),
+    decode: (data: any[], decode) => new Set(data.map(decode))
+  },
+  {
+    name: 'BigInt',
+    test: value => typeof value === 'bigint',
+    encode: (value: bigint) => value.toString(),
+    decode: data => BigInt(data)
+  },
+  {
+    name: 'RegExp',
+    test: value => value instanceof RegExp,
+    encode: (value: RegExp) => ({ source: value.source, flags: value.flags }),
+    decode: data => new RegExp(data.source, data.flags)
+  },
+  {
+    name: 'Number',
+    test: value => typeof value === 'number' && !isFinite(value),
+    encode: (value: number) => String(value),
+    decode: data => Number(data)
+  },
+  ...TYPED_ARRAYS.map((TypedArray): TypeHandler => ({
+    name: TypedArray.name,
+    test: value => value instanceof TypedArray,
+    encode: (value: ArrayLike<number>) => Array.from(value, entry => isFinite(entry) ? entry : String(entry)),
+    decode: (data: (number | string)[]) => new TypedArray(data.map(Number))
+  }))
+];
+
+/**
+ * Creates a codec with the built-in type handlers registered
+ * @returns {Codec} A new codec
+ */
+export const createCodec = (): Codec => {
+  const handlers = new Map<string, TypeHandler>();
+  // Handlers in lookup order, most recently registered first
+  let orderedHandlers: TypeHandler[] = [];
+
+  const codec: Codec = {
+    register: (handler: TypeHandler): void => {
+      if (!handler || typeof handler.name !== 'string' || !handler.name) {
+        throw new Error('Type handler must have a name');
+      }
+      if (handler.name === ESCAPED_OBJECT_TYPE) {
+        throw new Error(`Type handler name "${ESCAPED_OBJECT_TYPE}" is reserved`);
+      }
+      (['test', 'encode', 'decode'] as const).forEach(method => {
+        if (typeof handler[method] !== 'function') {
+          throw new Error(`Type handler ${handler.name} must have a ${method} function`);
+        }
+      });
+
+      // Re-insert so the most recently registered handlers are tested first
+      handlers.delete(handler.name);
+      handlers.set(handler.name, handler);
+      orderedHandlers = Array.from(handlers.values()).reverse();
+    },
+
+    encode: (value: any): any => {
+      // Objects on the path from the root to the current value, used to detect cycles
+      const ancestors = new Set<object>();
+
+      const encodeValue = (item: any, path: string): any => {
+        const handler = orderedHandlers.find(candidate => candidate.test(item));
+        if (!handler && (item === null || typeof item !== 'object')) {
+          return typeof item === 'function' || typeof item === 'symbol' ? undefined : item;
+        }
+
+        if (ancestors.has(item)) {
+          throw new Error(`Cannot serialize circular reference at ${path || 'root'}`);
+        }
+
+        if (item && typeof item === 'object') ancestors.add(item);
+        try {
+          let childIndex = 0;
+          const encodeChild = (child: any): any => encodeValue(child, `${path}[${childIndex++}]`);
+
+          if (handler) {
+            return { [TYPE_KEY]: handler.name, [VALUE_KEY]: handler.encode(item, encodeChild) };
+          }
+
+          if (Array.isArray(item)) {
+            return item.map((entry, index) => encodeValue(entry, `${path}[${index}]`));
+          }
+
+          const encoded: Record<string, any> = {};
+          Object.keys(item).forEach(key => {
+            const entry = encodeValue(item[key], path ? `${path}.${key}` : key);
+            if (entry !== undefined) encoded[key] = entry;
+          });
+
+          // Escape objects which would otherwise be mistaken for a tagged value
+          return TYPE_KEY in encoded ? { [TYPE_KEY]: ESCAPED_OBJECT_TYPE, [VALUE_KEY]: encoded } : encoded;
+        } finally {
+          if (item && typeof item === 'object') ancestors.delete(item);
+        }
+      };
+
+      return encodeValue(value, '');
+    },
+
+    decode: (data: any): any => {
+      const decodeValue = (item: any): any => {
+        if (!item || typeof item !== 'object') return item;
+
+        if (Array.isArray(item)) return item.map(decodeValue);
+
+        if (TYPE_KEY in item) {
+          const typeName = item[TYPE_KEY];
+          if (typeName === ESCAPED_OBJECT_TYPE) return decodeEntries(item[VALUE_KEY]);
+
+          const handler = handlers.get(typeName);
+          if (!handler) {
+            throw new Error(`No type handler registered for ${typeName}`);
+          }
+          return handler.decode(item[VALUE_KEY], decodeValue);
+        }
+
+        return decodeEntries(item);
+      };
+
+      const decodeEntries = (item: Record<string, any>): Record<string, any> => {
+        const decoded: Record<string, any> = {};
+        Object.keys(item).forEach(key => {
+          decoded[key] = decodeValue(item[key]);
+        });
+        return decoded;
+      };
+
+      return decodeValue(data);
+    }
+  };
+
+  createBuiltInHandlers().forEach(handler => codec.register(handler));
+  return codec;
+};
+
+/**
+ * @constant {Codec}
+ * @description Codec used by plugins which aren't given their own
+ */
+export const defaultCodec = createCodec();
+
+/**
+ * Registers a type handler with the default codec
+ * @param {TypeHandler} handler - The type handler
+ */
+export const registerType = <T>(handler: TypeHandler<T>): void => {
+  defaultCodec.register(handler);
+};
+
+/**
+ * Registers a class with a codec so its instances are revived on load
+ * @param {Function} ClassType - The class constructor
+ * @param {ClassTypeOptions} [options={}] - Naming and conversion options
+ * @param {Codec} [codec=defaultCodec] - The codec to register with
+ */
+export const registerClass = <T extends object>(
+  ClassType: new (...args: any[]) => T,
+  options: ClassTypeOptions<T> = {},
+  codec: Codec = defaultCodec
+): void => {
+  const name = options.name ?? ClassType.name;
+  if (!name) {
+    throw new Error('Anonymous classes must be registered with a name');
+  }
+
+  codec.register({
+    name,
+    test: value => value instanceof ClassType,
+    encode: (value: T, encode) => {
+      if (options.toData) return encode(options.toData(value));
+
+      const data: Record<string, any> = {};
+      Object.keys(value).forEach(key => {
+        data[key] = encode((value as Record<string, any>)[key]);
+      });
+      return data;
+    },
+    decode: (data, decode) => {
+      if (options.fromData) return options.fromData(decode(data));
+
+      const instance = Object.create(ClassType.prototype);
+      Object.keys(data).forEach(key => {
+        instance[key] = decode(data[key]);
+      });
+      return instance;
+    }
+  });
+};
@@ -0,0 +1,508 @@
+/**
+ * @typedef {('gzip'|'deflate')} CompressionFormat
+ * @description Compression format of a saved payload, matching the CompressionStream formats
+ */
+export type CompressionFormat = 'gzip' | 'deflate';
+
+/**
+ * @constant {number}
+ * @description Size of the sliding window searched for repeated data
+ */
+const WINDOW_SIZE = 32768;
+
+/**
+ * @constant {number}
+ * @description Longest match a single length code can describe
+ */
+const MAX_MATCH = 258;
+
+/**
+ * @constant {number}
+ * @description Maximum number of earlier positions compared when looking for a match
+ */
+const MAX_CHAIN = 64;
+
+/**
+ * @constant {number[]}
+ * @description Base lengths and extra bits of length codes 257-285
+ */
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+
+/**
+ * @constant {number[]}
+ * @description Base distances and extra bits of distance codes 0-29
+ */
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+/**
+ * @constant {number[]}
+ * @description Order in which code length code lengths are stored in a dynamic block
+ */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/**
+ * @interface Huffman
+ * @description Canonical Huffman decoding table
+ */
+interface Huffman {
+  /** Number of codes of each bit length */
+  counts: Uint16Array;
+  /** Symbols ordered by code */
+  symbols: Uint16Array;
+}
+
+/**
+ * Builds a decoding table from the code length of each symbol
+ * @param {ArrayLike<number>} lengths - Code length of each symbol, 0 when unused
+ * @returns {Huffman} The decoding table
+ */
+const buildHuffman = (lengths: ArrayLike<number>): Huffman => {
+  const counts = new Uint16Array(16);
+  const symbols = new Uint16Array(lengths.length);
+  const offsets = new Uint16Array(16);
+
+  for (let symbol = 0; symbol < lengths.length; symbol++) counts[lengths[symbol]]++;
+  counts[0] = 0;
+  for (let length = 1; length < 16; length++) offsets[length] = offsets[length - 1] + counts[length - 1];
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol]) symbols[offsets[lengths[symbol]]++] = symbol;
+  }
+
+  return { counts, symbols };
+};
+
+/**
+ * Creates the code lengths of the fixed literal/length and distance codes
+ * @returns {[number[], number[]]} The literal/length and distance code lengths
+ */
+const getFixedLengths = (): [number[], number[]] => {
+  const literalLengths: number[] = [];
+  for (let symbol = 0; symbol < 288; symbol++) {
+    literalLengths.push(symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8);
+  }
+  return [literalLengths, new Array(30).fill(5)];
+};
+
+/**
+ * @constant {Uint32Array}
+ * @description Lookup table for CRC-32 checksums
+ */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index++) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit++) value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Calculates the CRC-32 checksum used by gzip
+ * @param {Uint8Array} data - The data to check
+ * @returns {number} The checksum
+ */
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index++) crc = CRC_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Calculates the Adler-32 checksum used by zlib
+ * @param {Uint8Array} data - The data to check
+ * @returns {number} The checksum
+ */
+const adler32 = (data: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let index = 0; index < data.length; index++) {
+    a = (a + data[index]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+/**
+ * Compresses data into a raw deflate stream of one block using the fixed Huffman codes
+ * @param {Uint8Array} data - The data to compress
+ * @returns {Uint8Array} The deflate stream
+ */
+const deflateRaw = (data: Uint8Array): Uint8Array => {
+  const output: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const writeBits = (value: number, count: number): void => {
+    bitBuffer |= value << bitCount;
+    bitCount += count;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  // Huffman codes are packed starting from their most significant bit
+  const writeCode = (code: number, length: number): void => {
+    let reversed = 0;
+    for (let bit = 0; bit < length; bit++) reversed |= ((code >>> bit) & 1) << (length - 1 - bit);
+    writeBits(reversed, length);
+  };
+
+  const writeLiteral = (symbol: number): void => {
+    if (symbol < 144) writeCode(0x30 + symbol, 8);
+    else if (symbol < 256) writeCode(0x190 + symbol - 144, 9);
+    else if (symbol < 280) writeCode(symbol - 256, 7);
+    else writeCode(0xc0 + symbol - 280, 8);
+  };
+
+  const writeMatch = (length: number, distance: number): void => {
+    let lengthCode = LENGTH_BASE.length - 1;
+    while (LENGTH_BASE[lengthCode] > length) lengthCode--;
+    writeLiteral(257 + lengthCode);
+    writeBits(length - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+
+    let distanceCode = DISTANCE_BASE.length - 1;
+    while (DISTANCE_BASE[distanceCode] > distance) distanceCode--;
+    writeCode(distanceCode, 5);
+    writeBits(distance - DISTANCE_BASE[distanceCode], DISTANCE_EXTRA[distanceCode]);
+  };
+
+  // Final block, fixed Huffman codes
+  writeBits(1, 1);
+  writeBits(1, 2);
+
+  const head = new Int32Array(1 << 15).fill(-1);
+  const previous = new Int32Array(WINDOW_SIZE);
+  const hashAt = (position: number): number => ((data[position] << 10) ^ (data[position + 1] << 5) ^ data[position + 2]) & 0x7fff;
+  const insert = (position: number): void => {
+    if (position + 2 >= data.length) return;
+    const hash = hashAt(position);
+    previous[position % WINDOW_SIZE] = head[hash];
+    head[hash] = position;
+  };
+
+  let position = 0;
+  while (position < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (position + 2 < data.length) {
+      let candidate = head[hashAt(position)];
+      const maxLength = Math.min(MAX_MATCH, data.length - position);
+      for (let chain = 0; candidate >= 0 && position - candidate <= WINDOW_SIZE && chain < MAX_CHAIN; chain++) {
+        let length = 0;
+        while (length < maxLength && data[candidate + length] === data[position + length]) length++;
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = position - candidate;
+          if (length === maxLength) break;
+        }
+        const next = previous[candidate % WINDOW_SIZE];
+        if (next >= candidate) break;
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= 3) {
+      writeMatch(bestLength, bestDistance);
+      for (let offset = 0; offset < bestLength; offset++) insert(position + offset);
+      position += bestLength;
+    } else {
+      writeLiteral(data[position]);
+      insert(position);
+      position++;
+    }
+  }
+
+  writeLiteral(256);
+  if (bitCount > 0) output.push(bitBuffer & 0xff);
+  return Uint8Array.from(output);
+};
+
+/**
+ * Decompresses a raw deflate stream
+ * @param {Uint8Array} data - The deflate stream
+ * @param {number} start - Offset of the stream within the data
+ * @returns {[Uint8Array, number]} The decompressed data and the offset just past the stream
+ * @throws {Error} If the stream is invalid
+ */
+const inflateRaw = (data: Uint8Array, start: number): [Uint8Array, number] => {
+  const output: number[] = [];
+  let position = start;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const readBits = (count: number): number => {
+    while (bitCount < count) {
+      if (position >= data.length) throw new Error('Unexpected end of compressed data');
+      bitBuffer |= data[position++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCount -= count;
+    return value;
+  };
+
+  const readSymbol = (huffman: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length++) {
+      code |= readBits(1);
+      const count = huffman.counts[length];
+      if (code - count < first) return huffman.symbols[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code in compressed data');
+  };
+
+  const [fixedLiteralLengths, fixedDistanceLengths] = getFixedLengths();
+  let isFinal = false;
+
+  while (!isFinal) {
+    isFinal = readBits(1) === 1;
+    const blockType = readBits(2);
+
+    if (blockType === 0) {
+      // Stored blocks start on a byte boundary
+      bitBuffer = 0;
+      bitCount = 0;
+      if (position + 4 > data.length) throw new Error('Unexpected end of compressed data');
+      const length = data[position] | (data[position + 1] << 8);
+      position += 4;
+      if (position + length > data.length) throw new Error('Unexpected end of compressed data');
+      for (let index = 0; index < length; index++) output.push(data[position++]);
+      continue;
+    }
+
+    let literals: Huffman;
+    let distances: Huffman;
+    if (blockType === 1) {
+      literals = buildHuffman(fixedLiteralLengths);
+      distances = buildHuffman(fixedDistanceLengths);
+    } else if (blockType === 2) {
+      const literalCount = readBits(5) + 257;
+      const distanceCount = readBits(5) + 1;
+      const codeLengthCount = readBits(4) + 4;
+
+      const codeLengthLengths = new Uint8Array(19);
+      for (let index = 0; index < codeLengthCount; index++) codeLengthLengths[CODE_LENGTH_ORDER[index]] = readBits(3);
+      const codeLengths = buildHuffman(codeLengthLengths);
+
+      const lengths = new Uint8Array(literalCount + distanceCount);
+      for (let index = 0; index < lengths.length;) {
+        const symbol = readSymbol(codeLengths);
+        if (symbol < 16) {
+          lengths[index++] = symbol;
+          continue;
+        }
+
+        let repeat: number;
+        let value = 0;
+        if (symbol === 16) {
+          if (index === 0) throw new Error('Invalid code lengths in compressed data');
+          value = lengths[index - 1];
+          repeat = 3 + readBits(2);
+        } else {
+          repeat = symbol === 17 ? 3 + readBits(3) : 11 + readBits(7);
+        }
+        if (index + repeat > lengths.length) throw new Error('Invalid code lengths in compressed data');
+        lengths.fill(value, index, index + repeat);
+        index += repeat;
+      }
+
+      literals = buildHuffman(lengths.subarray(0, literalCount));
+      distances = buildHuffman(lengths.subarray(literalCount));
+    } else {
+      throw new Error('Invalid block type in compressed data');
+    }
+
+    for (;;) {
+      const symbol = readSymbol(literals);
+      if (symbol < 256) {
+        output.push(symbol);
+        continue;
+      }
+      if (symbol === 256) break;
+
+      const lengthCode = symbol - 257;
+      if (lengthCode >= LENGTH_BASE.length) throw new Error('Invalid length in compressed data');
+      const length = LENGTH_BASE[lengthCode] + readBits(LENGTH_EXTRA[lengthCode]);
+
+      const distanceCode = readSymbol(distances);
+      if (distanceCode >= DISTANCE_BASE.length) throw new Error('Invalid distance in compressed data');
+      const distance = DISTANCE_BASE[distanceCode] + readBits(DISTANCE_EXTRA[distanceCode]);
+      if (distance > output.length) throw new Error('Invalid distance in compressed data');
+
+      const from = output.length - distance;
+      for (let index = 0; index < length; index++) output.push(output[from + index]);
+    }
+  }
+
+  return [Uint8Array.from(output), position];
+};
+
+/**
+ * Compresses data without CompressionStream
+ * @param {Uint8Array} data - The data to compress
+ * @param {CompressionFormat} format - The compression format
+ * @returns {Uint8Array} The compressed data
+ */
+const compressFallback = (data: Uint8Array, format: CompressionFormat): Uint8Array => {
+  const deflated = deflateRaw(data);
+
+  if (format === 'deflate') {
+    const checksum = adler32(data);
+    const output = new Uint8Array(deflated.length + 6);
+    output.set([0x78, 0x9c]);
+    output.set(deflated, 2);
+    output.set([checksum >>> 24, (checksum >>> 16) & 0xff, (checksum >>> 8) & 0xff, checksum & 0xff], deflated.length + 2);
+    return output;
+  }
+
+  const checksum = crc32(data);
+  const size = data.length;
+  const output = new Uint8Array(deflated.length + 18);
+  output.set([0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff]);
+  output.set(deflated, 10);
+  output.set([
+    checksum & 0xff, (checksum >>> 8) & 0xff, (checksum >>> 16) & 0xff, checksum >>> 24,
+    size & 0xff, (size >>> 8) & 0xff, (size >>> 16) & 0xff, size >>> 24
+  ], deflated.length + 10);
+  return output;
+};
+
+/**
+ * Decompresses data without DecompressionStream
+ * @param {Uint8Array} data - The compressed data
+ * @param {CompressionFormat} format - The compression format
+ * @returns {Uint8Array} The decompressed data
+ * @throws {Error} If the data is invalid or fails its checksum
+ */
+const decompressFallback = (data: Uint8Array, format: CompressionFormat): Uint8Array => {
+  const readUint32 = (offset: number, littleEndian: boolean): number => {
+    const bytes = littleEndian ? [data[offset + 3], data[offset + 2], data[offset + 1], data[offset]] : Array.from(data.subarray(offset, offset + 4));
+    return bytes.reduce((value, byte) => value * 256 + byte, 0);
+  };
+
+  if (format === 'deflate') {
+    if (data.length < 6 || (data[0] & 0x0f) !== 8 || ((data[0] << 8) | data[1]) % 31 !== 0 || data[1] & 0x20) {
+      throw new Error('Invalid deflate header');
+    }
+    const [output, end] = inflateRaw(data, 2);
+    if (end + 4 > data.length || readUint32(end, false) !== adler32(output)) {
+      throw new Error('Deflate checksum mismatch');
+    }
+    return output;
+  }
+
+  if (data.length < 18 || data[0] !== 0x1f || data[1] !== 0x8b || data[2] !== 8) {
+    throw new Error('Invalid gzip header');
+  }
+
+  // Skip the optional header fields
+  const flags = data[3];
+  let offset = 10;
+  if (flags & 0x04) offset += 2 + (data[offset] | (data[offset + 1] << 8));
+  if (flags & 0x08) while (data[offset++] !== 0 && offset < data.length);
+  if (flags & 0x10) while (data[offset++] !== 0 && offset < data.length);
+  if (flags & 0x02) offset += 2;
+
+  const [output, end] = inflateRaw(data, offset);
+  if (end + 8 > data.length || readUint32(end, true) !== crc32(output)) {
+    throw new Error('Gzip checksum mismatch');
+  }
+  return output;
+};
+
+/**
+ * Runs data through a compression or decompression stream
+ * @async
+ * @param {Uint8Array} data - The input data
+ * @param {TransformStream} stream - The transform stream
+ * @returns {Promise<Uint8Array>} The output data
+ */
+const transformWithStream = async (data: Uint8Array, stream: TransformStream<Uint8Array, Uint8Array>): Promise<Uint8Array> => {
+  const writer = stream.writable.getWriter();
+  // Read while writing, as the writer waits for the output to be consumed
+  const writing = writer.write(data).then(() => writer.close());
+  // Invalid input fails both sides, the reader reports it so the writer's failure is only awaited
+  writing.catch(() => undefined);
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  await writing;
+
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  chunks.reduce((offset, chunk) => {
+    output.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return output;
+};
+
+/**
+ * Compresses data, using CompressionStream where available
+ * @async
+ * @param {Uint8Array} data - The data to compress
+ * @param {CompressionFormat} format - The compression format
+ * @returns {Promise<Uint8Array>} The compressed data
+ */
+export const compress = async (data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> => {
+  if (typeof CompressionStream === 'undefined') return compressFallback(data, format);
+  return transformWithStream(data, new CompressionStream(format) as unknown as TransformStream<Uint8Array, Uint8Array>);
+};
+
+/**
+ * Decompresses data, using DecompressionStream where available
+ * @async
+ * @param {Uint8Array} data - The compressed data
+ * @param {CompressionFormat} format - The compression format
+ * @returns {Promise<Uint8Array>} The decompressed data
+ * @throws {Error} If the data is invalid
+ */
+export const decompress = async (data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') return decompressFallback(data, format);
+  return transformWithStream(data, new DecompressionStream(format) as unknown as TransformStream<Uint8Array, Uint8Array>);
+};
+
+/**
+ * Encodes bytes as base64
+ * @param {Uint8Array} data - The bytes to encode
+ * @returns {string} The base64 text
+ */
+export const toBase64 = (data: Uint8Array): string => {
+  let binary = '';
+  // Convert in chunks to stay within the argument limit of String.fromCharCode
+  for (let offset = 0; offset < data.length; offset += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(data.subarray(offset, offset + 0x8000)));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Decodes base64 text into bytes
+ * @param {string} text - The base64 text
+ * @returns {Uint8Array} The decoded bytes
+ */
+export const fromBase64 = (text: string): Uint8Array => {
+  const binary = atob(text);
+  const data = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) data[index] = binary.charCodeAt(index);
+  return data;
+};
@@ -0,0 +1,165 @@
+import { fromBase64, toBase64 } from './compression';
+import { DecryptionError } from './errors';
+
+/**
+ * @constant {number}
+ * @description Default number of PBKDF2 iterations used to derive a key from a passphrase
+ */
+const DEFAULT_ITERATIONS = 600000;
+
+/**
+ * @interface EncryptionOptions
+ * @description Options for encrypting saved state with AES-GCM
+ */
+export interface EncryptionOptions {
+  /** Id of the key new saves are encrypted with, recorded in each save so older keys can still be found (defaults to 'default') */
+  keyId?: string;
+  /** Returns the passphrase of a key id, from which the key is derived with PBKDF2 */
+  getPassphrase?: (keyId: string) => string | Promise<string>;
+  /** Returns the AES-GCM key of a key id, used instead of deriving one from a passphrase */
+  getKey?: (keyId: string) => CryptoKey | Promise<CryptoKey>;
+  /** PBKDF2 iterations used when deriving keys for new saves */
+  iterations?: number;
+}
+
+/**
+ * @interface EncryptionHeader
+ * @description Parameters needed to decrypt an encrypted payload, stored next to it
+ */
+export interface EncryptionHeader {
+  /** Encryption algorithm */
+  algorithm: 'AES-GCM';
+  /** Id of the key the payload was encrypted with */
+  keyId: string;
+  /** Base64 initialization vector */
+  iv: string;
+  /** Base64 PBKDF2 salt, when the key was derived from a passphrase */
+  salt?: string;
+  /** PBKDF2 iterations, when the key was derived from a passphrase */
+  iterations?: number;
+}
+
+/**
+ * @interface Encryptor
+ * @description Encrypts and decrypts payloads, caching the keys it derives
+ */
+export interface Encryptor {
+  /** Gets the id of the key new payloads are encrypted with */
+  getKeyId: () => string;
+  /** Switches new payloads to another key, leaving older payloads readable through their recorded key id */
+  rotateKey: (keyId: string) => void;
+  /** Encrypts a payload with the current key */
+  encrypt: (data: Uint8Array) => Promise<[EncryptionHeader, Uint8Array]>;
+  /** Decrypts a payload with the key recorded in its header */
+  decrypt: (header: EncryptionHeader, data: Uint8Array) => Promise<Uint8Array>;
+}
+
+/**
+ * Gets the WebCrypto API
+ * @returns {SubtleCrypto} The subtle crypto object
+ * @throws {Error} If WebCrypto is unavailable
+ */
+const getSubtle = (): SubtleCrypto => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) throw new Error('WebCrypto is not available, encryption requires a secure context');
+  return subtle;
+};
+
+/**
+ * Generates random bytes
+ * @param {number} length - The number of bytes
+ * @returns {Uint8Array} The random bytes
+ */
+const getRandomBytes = (length: number): Uint8Array => {
+  return globalThis.crypto.getRandomValues(new Uint8Array(length));
+};
+
+/**
+ * Creates an encryptor using a key provider or passphrase
+ * @param {EncryptionOptions} options - The encryption options
+ * @returns {Encryptor} A new encryptor
+ */
+export const createEncryptor = (options: EncryptionOptions): Encryptor => {
+  let keyId = options.keyId ?? 'default';
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  // Keys by key id, salt and iterations, so each passphrase is only stretched once per salt
+  const keys = new Map<string, Promise<CryptoKey>>();
+  // Salt of new saves under each key id, reused for the session so their key is only derived once
+  const salts = new Map<string, Uint8Array>();
+
+  /**
+   * Gets the key for a key id, deriving it from the passphrase if needed
+   * @param {string} id - The key id
+   * @param {Uint8Array} [salt] - The PBKDF2 salt, for passphrase-derived keys
+   * @param {number} [keyIterations] - The PBKDF2 iterations, for passphrase-derived keys
+   * @returns {Promise<CryptoKey>} The AES-GCM key
+   */
+  const getKey = (id: string, salt?: Uint8Array, keyIterations?: number): Promise<CryptoKey> => {
+    const cacheKey = `${id}:${salt ? toBase64(salt) : ''}:${keyIterations ?? ''}`;
+    const cached = keys.get(cacheKey);
+    if (cached) return cached;
+
+    const key = (async (): Promise<CryptoKey> => {
+      if (options.getKey) return options.getKey(id);
+      if (!options.getPassphrase || !salt) {
+        throw new DecryptionError(id, 'No passphrase or key provider is configured');
+      }
+
+      const subtle = getSubtle();
+      const passphrase = await options.getPassphrase(id);
+      const material = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+      return subtle.deriveKey(
+        { name: 'PBKDF2', salt: salt as BufferSource, iterations: keyIterations ?? iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+    })();
+
+    keys.set(cacheKey, key);
+    // Let a failed provider or passphrase prompt be retried
+    key.catch(() => keys.delete(cacheKey));
+    return key;
+  };
+
+  return {
+    getKeyId: (): string => keyId,
+
+    rotateKey: (id: string): void => {
+      keyId = id;
+    },
+
+    encrypt: async (data: Uint8Array): Promise<[EncryptionHeader, Uint8Array]> => {
+      const header: EncryptionHeader = { algorithm: 'AES-GCM', keyId, iv: '' };
+      let salt: Uint8Array | undefined;
+      if (!options.getKey) {
+        salt = salts.get(keyId) ?? getRandomBytes(16);
+        salts.set(keyId, salt);
+        header.salt = toBase64(salt);
+        header.iterations = iterations;
+      }
+
+      const iv = getRandomBytes(12);
+      header.iv = toBase64(iv);
+      const key = await getKey(keyId, salt, header.iterations);
+      const encrypted = await getSubtle().encrypt({ name: 'AES-GCM', iv: iv as BufferSource }, key, data as BufferSource);
+      return [header, new Uint8Array(encrypted)];
+    },
+
+    decrypt: async (header: EncryptionHeader, data: Uint8Array): Promise<Uint8Array> => {
+      if (header.algorithm !== 'AES-GCM') {
+        throw new Error(`Unsupported encryption algorithm: ${header.algorithm}`);
+      }
+
+      const key = await getKey(header.keyId, header.salt ? fromBase64(header.salt) : undefined, header.iterations);
+      try {
+        const decrypted = await getSubtle().decrypt({ name: 'AES-GCM', iv: fromBase64(header.iv) as BufferSource }, key, data as BufferSource);
+        return new Uint8Array(decrypted);
+      } catch (error) {
+        // AES-GCM authentication fails the same way for a wrong key and tampered data
+        throw new DecryptionError(header.keyId, 'The passphrase or key is wrong, or the saved data was modified');
+      }
+    }
+  };
+};
@@ -0,0 +1,119 @@
+import { ValidationIssue } from './validation';
+
+/**
+ * @class PayloadTooLargeError
+ * @description Thrown when a save would write more than the configured maximum payload size
+ */
+export class PayloadTooLargeError extends Error {
+  /** Size in bytes of the payload which was rejected */
+  public readonly size: number;
+  /** Configured maximum payload size in bytes */
+  public readonly limit: number;
+
+  /**
+   * @param {number} size - Size in bytes of the rejected payload
+   * @param {number} limit - Configured maximum payload size in bytes
+   */
+  constructor(size: number, limit: number) {
+    super(`Saved data is ${size} bytes, which exceeds the ${limit} byte limit`);
+    this.name = 'PayloadTooLargeError';
+    this.size = size;
+    this.limit = limit;
+    // Keep instanceof working when compiled to ES5-style classes
+    Object.setPrototypeOf(this, PayloadTooLargeError.prototype);
+  }
+}
+
+/**
+ * @class DecryptionError
+ * @description Thrown when encrypted saved data cannot be decrypted, usually because the key is wrong
+ */
+export class DecryptionError extends Error {
+  /** Id of the key the data was encrypted with */
+  public readonly keyId: string;
+
+  /**
+   * @param {string} keyId - Id of the key the data was encrypted with
+   * @param {string} reason - Why the data could not be decrypted
+   */
+  constructor(keyId: string, reason: string) {
+    super(`Could not decrypt saved data with key "${keyId}": ${reason}`);
+    this.name = 'DecryptionError';
+    this.keyId = keyId;
+    Object.setPrototypeOf(this, DecryptionError.prototype);
+  }
+}
+
+/**
+ * @typedef {('storage'|'corrupt'|'decryption')} LoadFailureReason
+ * @description Why saved state failed to load: storage was unreachable, the data couldn't be parsed, or the key was wrong
+ */
+export type LoadFailureReason = 'storage' | 'corrupt' | 'decryption';
+
+/**
+ * @class LoadError
+ * @description Thrown when saved state exists, or may exist, but could not be loaded
+ */
+export class LoadError extends Error {
+  /** Why the load failed */
+  public readonly reason: LoadFailureReason;
+  /** The underlying error */
+  public readonly originalError: unknown;
+
+  /**
+   * @param {LoadFailureReason} reason - Why the load failed
+   * @param {string} message - Description of the failure
+   * @param {unknown} [originalError] - The underlying error
+   */
+  constructor(reason: LoadFailureReason, message: string, originalError?: unknown) {
+    super(message);
+    this.name = 'LoadError';
+    this.reason = reason;
+    this.originalError = originalError;
+    Object.setPrototypeOf(this, LoadError.prototype);
+  }
+}
+
+/**
+ * @class ImportError
+ * @description Thrown when an imported file is not a state bundle exported by the same tool
+ */
+export class ImportError extends Error {
+  /** The underlying error */
+  public readonly originalError: unknown;
+
+  /**
+   * @param {string} message - Description of the failure
+   * @param {unknown} [originalError] - The underlying error
+   */
+  constructor(message: string, originalError?: unknown) {
+    super(message);
+    this.name = 'ImportError';
+    this.originalError = originalError;
+    Object.setPrototypeOf(this, ImportError.prototype);
+  }
+}
+
+/**
+ * @class StateValidationError
+ * @description Thrown when a store's state fails validation and is rejected
+ */
+export class StateValidationError extends Error {
+  /** Id of the store with invalid state */
+  public readonly storeId: string;
+  /** Problems found in the state */
+  public readonly issues: ValidationIssue[];
+
+  /**
+   * @param {string} storeId - Id of the store with invalid state
+   * @param {ValidationIssue[]} issues - Problems found in the state
+   */
+  constructor(storeId: string, issues: ValidationIssue[]) {
+    const summary = issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+    super(`State of store ${storeId} is invalid${summary ? ` (${summary})` : ''}`);
+    this.name = 'StateValidationError';
+    this.storeId = storeId;
+    this.issues = issues;
+    Object.setPrototypeOf(this, StateValidationError.prototype);
+  }
+}
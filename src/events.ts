@@ -0,0 +1,49 @@
+/**
+ * @typedef {Function} EventHandler
+ * @description Called with the payload of an emitted event
+ */
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * @interface EventEmitter
+ * @description Emits typed events to the handlers registered for them
+ */
+export interface EventEmitter<Events extends object> {
+  /** Registers a handler for an event, returning a function which removes it */
+  on: <K extends keyof Events>(event: K, handler: EventHandler<Events[K]>) => () => void;
+  /** Calls every handler of an event with its payload */
+  emit: <K extends keyof Events>(event: K, payload: Events[K]) => void;
+}
+
+/**
+ * Creates an event emitter whose handlers can't break the code emitting events
+ * @param {Function} onHandlerError - Called when a handler throws, with the error and event name
+ * @returns {EventEmitter} A new event emitter
+ */
+export const createEventEmitter = <Events extends object>(
+  onHandlerError: (error: Error, event: string) => void
+): EventEmitter<Events> => {
+  const handlers = new Map<keyof Events, Set<EventHandler<any>>>();
+
+  return {
+    on: <K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): (() => void) => {
+      const eventHandlers = handlers.get(event) ?? new Set<EventHandler<any>>();
+      eventHandlers.add(handler);
+      handlers.set(event, eventHandlers);
+      return () => {
+        eventHandlers.delete(handler);
+      };
+    },
+
+    emit: <K extends keyof Events>(event: K, payload: Events[K]): void => {
+      // Copy the handlers so one removing itself doesn't skip the next
+      Array.from(handlers.get(event) ?? []).forEach(handler => {
+        try {
+          handler(payload);
+        } catch (error) {
+          onHandlerError(error as Error, String(event));
+        }
+      });
+    }
+  };
+};
@@ -0,0 +1,39 @@
+/**
+ * @typedef {Function} HotkeyHandler
+ * @description Called when a hotkey is pressed
+ */
+export type HotkeyHandler = () => void;
+
+/**
+ * Handlers of the save hotkey, one for each plugin instance
+ */
+const saveHandlers = new Set<HotkeyHandler>();
+
+/**
+ * Calls every save handler on Ctrl+S (Windows/Linux) or Command+S (Mac)
+ * @param {KeyboardEvent} event - The keyboard event
+ */
+const handleKeyDown = (event: KeyboardEvent): void => {
+  if (!(event.ctrlKey || event.metaKey) || event.key !== 's') return;
+
+  event.preventDefault(); // Prevent the browser's save dialog
+  // Copy the handlers so one unregistering itself doesn't skip the next
+  Array.from(saveHandlers).forEach(handler => handler());
+};
+
+/**
+ * Registers a handler for the save hotkey, sharing one window listener between every plugin instance
+ * @param {HotkeyHandler} handler - Called when the save hotkey is pressed
+ * @returns {Function} Removes the handler, and the window listener along with the last handler
+ */
+export const registerSaveHotkey = (handler: HotkeyHandler): (() => void) => {
+  if (typeof window === 'undefined') return () => undefined;
+
+  if (!saveHandlers.size) window.addEventListener('keydown', handleKeyDown);
+  saveHandlers.add(handler);
+
+  return () => {
+    if (!saveHandlers.delete(handler) || saveHandlers.size) return;
+    window.removeEventListener('keydown', handleKeyDown);
+  };
+};
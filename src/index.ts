@@ -1,27 +1,276 @@
 import { nanoid } from 'nanoid';
-import { defineStore, PiniaPluginContext, StateTree, Store } from 'pinia';
+import { _ActionsTree, _GettersTree, defineStore, Pinia, PiniaPluginContext, StateTree, Store } from 'pinia';
+import { Codec, defaultCodec } from './codec';
+import { compress, CompressionFormat, decompress, fromBase64, toBase64 } from './compression';
+import { createEncryptor, EncryptionHeader, EncryptionOptions, Encryptor } from './encryption';
+import { DecryptionError, ImportError, LoadError, LoadFailureReason, PayloadTooLargeError, StateValidationError } from './errors';
+import { createEventEmitter, EventEmitter, EventHandler } from './events';
+import { registerSaveHotkey } from './hotkeys';
+import { createLogger, isLogLevel, Logger, LogLevel } from './logger';
+import { ConflictStrategy, findConflicts, isDeepEqual, mergeStates, SyncConflict } from './merge';
+import { createNotifyNotifier, createTeraNotifier, Notification, Notifier, NotifyOptions } from './notifier';
+import { applyPatch, createPatch, PatchOperation } from './patch';
+import { createTabCoordinator, TabCoordinator } from './tabs';
+import {
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createTeraStorageAdapter,
+  StorageAdapter,
+  TeraInstance
+} from './storage';
+import { StateValidator, ValidationFailureAction, ValidationIssue } from './validation';
+
+export {
+  createIndexedDbAdapter,
+  createLocalStorageAdapter,
+  createMemoryAdapter,
+  createSessionStorageAdapter,
+  createTeraStorageAdapter
+} from './storage';
+export type { IndexedDbAdapterOptions, LocalStorageAdapterOptions, StorageAdapter } from './storage';
+export { createCodec, defaultCodec, registerClass, registerType } from './codec';
+export type { ClassTypeOptions, Codec, TypeHandler } from './codec';
+export { applyPatch, createPatch } from './patch';
+export type { PatchOperation } from './patch';
+export type { CompressionFormat } from './compression';
+export type { EncryptionOptions } from './encryption';
+export { DecryptionError, ImportError, LoadError, PayloadTooLargeError, StateValidationError } from './errors';
+export { standardSchemaValidator, valibotValidator, zodValidator } from './validation';
+export type {
+  StandardSchema,
+  StateValidator,
+  ValidationFailureAction,
+  ValidationIssue,
+  ValidationResult,
+  ZodLikeSchema
+} from './validation';
+export type { LoadFailureReason } from './errors';
+export type { ConflictResolution, ConflictResolver, ConflictStrategy, SyncConflict } from './merge';
+export type { TeraInstance } from './storage';
+export type { EventHandler } from './events';
+export { createLogger } from './logger';
+export type { Logger, LoggerOptions, LogLevel } from './logger';
+export { createNoopNotifier, createNotifyNotifier, createTeraNotifier } from './notifier';
+export type { Notification, NotificationType, Notifier, NotifyOptions } from './notifier';
+
+/**
+ * @constant {string}
+ * @description Plugin version recorded in save envelopes
+ */
+const PLUGIN_VERSION = '1.0.0';
+
+/**
+ * @constant {number}
+ * @description Current version of the save file envelope format
+ */
+const SAVE_FORMAT_VERSION = 2;
+
+/**
+ * @constant {number}
+ * @description First envelope format version whose state is encoded with the codec
+ */
+const CODEC_FORMAT_VERSION = 2;
+
+/**
+ * @constant {string}
+ * @description Id of the Pinia store holding the sync status, followed by the key prefix of plugins which have one
+ */
+const SYNC_STATUS_STORE_ID = 'tera-file-sync-status';
+
+/**
+ * @constant {string}
+ * @description Marks exported files as state bundles
+ */
+const STATE_BUNDLE_KIND = 'tera-file-sync-bundle';
+
+/**
+ * @constant {string}
+ * @description Name of the save slot used unless another is chosen, whose files keep the unsuffixed storage keys
+ */
+const DEFAULT_SAVE_SLOT = 'default';
+
+/**
+ * @constant {number}
+ * @description Milliseconds local changes are collected for before being sent to other tabs
+ */
+const TAB_BROADCAST_DELAY_MS = 100;
+
+/**
+ * @constant {StoreScope[]}
+ * @description Scopes state can be saved in
+ */
+const STORE_SCOPES: StoreScope[] = ['project', 'user', 'session'];
+
+/**
+ * @typedef {Function} StoreMigration
+ * @description Upgrades a store's state from the previous schema version
+ */
+export type StoreMigration = (state: any) => any;
+
+/**
+ * @typedef {('project'|'user'|'session')} StoreScope
+ * @description Who saved state is kept for: everyone working on the project, the current user, or the current
+ * browser tab until it is closed
+ */
+export type StoreScope = 'project' | 'user' | 'session';
+
+/**
+ * @interface TeraStoreConfig
+ * @description Per-store persistence configuration
+ */
+export interface TeraStoreConfig {
+  /** Current schema version of the store state (defaults to the highest migration, or 1) */
+  version?: number;
+  /** Migrations keyed by the schema version they upgrade the state to */
+  migrations?: Record<number, StoreMigration>;
+  /** Whether the store is persisted at all (defaults to true) */
+  enabled?: boolean;
+  /** Dot-paths of the only state properties to persist */
+  pick?: string[];
+  /** Dot-paths of state properties to exclude from persistence */
+  omit?: string[];
+  /** Checks the store's state after loading and before saving */
+  validate?: StateValidator;
+  /** What to do with state which fails validation (defaults to 'reject') */
+  onInvalid?: ValidationFailureAction;
+  /** Scope the store is saved in (defaults to 'user' with separate state for each user, otherwise 'project') */
+  scope?: StoreScope;
+  /** Scopes of state properties, by dot-path, overriding the store's scope */
+  pathScopes?: Record<string, StoreScope>;
+}
+
+/**
+ * @typedef {('interval'|'debounce')} AutoSaveStrategy
+ * @description How automatic saves are triggered
+ */
+export type AutoSaveStrategy = 'interval' | 'debounce';
+
+/**
+ * @typedef {('single'|'sharded')} StorageLayout
+ * @description How saved state is split across storage files
+ */
+export type StorageLayout = 'single' | 'sharded';
+
+/**
+ * @typedef {('full'|'delta')} SaveMode
+ * @description Whether each save rewrites the whole file or appends a patch to a log
+ */
+export type SaveMode = 'full' | 'delta';
+
+/**
+ * @typedef {('off'|'apply'|'notify')} WatchMode
+ * @description Whether changes saved elsewhere are ignored until reload, applied when they don't conflict with unsaved
+ * local changes, or only announced on the status store
+ */
+export type WatchMode = 'off' | 'apply' | 'notify';
+
+/**
+ * @typedef {('json'|'pretty'|'gzip'|'deflate')} ExportFormat
+ * @description How an exported bundle is written: compact JSON, indented JSON, or JSON with its state compressed
+ */
+export type ExportFormat = 'json' | 'pretty' | CompressionFormat;
+
+/**
+ * @typedef {('replace'|'merge')} ImportMode
+ * @description Whether imported stores replace their persisted state or are merged into it
+ */
+export type ImportMode = 'replace' | 'merge';
 
 /**
- * @constant {boolean}
- * @description Debug mode flag for logging
+ * @typedef {Function} StateTransform
+ * @description Transforms the state of one store as it is saved or loaded, returning the new state
  */
-const DEBUG = true;
+export type StateTransform = (state: StateTree, storeId: string) => StateTree;
 
 /**
  * @interface TeraPluginConfig
  * @description Configuration for the TERA sync plugin
  */
-interface TeraPluginConfig {
+export interface TeraPluginConfig {
   /** Prefix for storage keys and filenames */
   keyPrefix: string;
-  /** Whether to maintain separate state for each user */
+  /** Whether stores without a scope are kept separately for each user, rather than shared by the project */
   isSeparateStateForEachUser: boolean;
   /** Auto-save interval in minutes (0 to disable) */
   autoSaveIntervalMinutes: number;
+  /** Whether auto-save runs on a fixed interval or shortly after the last change */
+  autoSaveStrategy: AutoSaveStrategy;
+  /** Seconds after the last change before a debounced auto-save */
+  autoSaveDebounceSeconds: number;
+  /** Maximum seconds a debounced auto-save can be postponed by continuous changes */
+  autoSaveMaxWaitSeconds: number;
+  /** Whether to save when the window loses focus or the page is hidden */
+  saveOnBlur: boolean;
   /** Whether to show initial alert about manual saving */
   showInitialAlert: boolean;
   /** Whether to enable Ctrl+S hotkey for saving */
   enableSaveHotkey: boolean;
+  /** Per-store configuration keyed by store id */
+  stores: Record<string, TeraStoreConfig>;
+  /** Store ids to persist (empty to persist all stores not synced by a plugin installed before this one) */
+  include: string[];
+  /** Store ids never to persist */
+  exclude: string[];
+  /** How keys changed both locally and by another collaborator are resolved on save */
+  conflictStrategy: ConflictStrategy;
+  /** Storage backend to use instead of TERA project files (null for TERA) */
+  storage: StorageAdapter | null;
+  /** Whether failed saves are kept in a local journal and retried */
+  enableOfflineJournal: boolean;
+  /** Storage backend for the offline journal (null for localStorage) */
+  journalStorage: StorageAdapter | null;
+  /** Storage backend for session scoped state (null for sessionStorage) */
+  sessionStorage: StorageAdapter | null;
+  /** Delay before the first retry of a failed save, doubled on each further attempt */
+  retryBaseDelaySeconds: number;
+  /** Maximum delay between retries of a failed save */
+  retryMaxDelaySeconds: number;
+  /** Codec used to serialize state (null for the default codec) */
+  codec: Codec | null;
+  /** Whether to record undo/redo history of synced stores */
+  enableHistory: boolean;
+  /** Maximum number of undo steps kept in memory */
+  historyLimit: number;
+  /** Mutations within this many milliseconds of each other are grouped into one undo step */
+  historyGroupWindowMs: number;
+  /** Number of undo steps saved into the file so undo survives reloads (0 to disable) */
+  persistHistoryLimit: number;
+  /** Number of previous saves kept as restorable revisions (0 to disable) */
+  revisionCount: number;
+  /** Revisions older than this many days are discarded (0 for no age limit) */
+  revisionMaxAgeDays: number;
+  /** Whether all stores share one file or each store has its own file tracked by a manifest */
+  layout: StorageLayout;
+  /** Whether store files of the sharded layout are only loaded once their store is created */
+  lazyLoadShards: boolean;
+  /** Whether saves rewrite the whole file or append JSON Patch deltas to a log (single layout only) */
+  saveMode: SaveMode;
+  /** Number of patches appended to the log before it is compacted back into a full save */
+  compactAfterPatches: number;
+  /** Format saved state is compressed with inside the envelope ('none' to store plain JSON) */
+  compression: CompressionFormat | 'none';
+  /** Maximum size in bytes of a single write, after compression (0 for no limit) */
+  maxPayloadBytes: number;
+  /** Encrypts saved state with AES-GCM using a passphrase or key provider (null to store it unencrypted) */
+  encryption: EncryptionOptions | null;
+  /** Transforms each store's state before it is saved, such as to strip or enrich data (null to save it as is) */
+  beforeSave: StateTransform | null;
+  /** Transforms each store's state after it is loaded and migrated, before it is applied (null to apply it as is) */
+  afterLoad: StateTransform | null;
+  /** The most detailed level of messages logged to the console */
+  logLevel: LogLevel;
+  /** Whether logged state payloads and other objects are replaced by a summary */
+  redactLogs: boolean;
+  /** Shows notices and errors to the user (null for `$notify` when available, otherwise TERA's modal alert dialog) */
+  notifier: Notifier | null;
+  /** Whether tabs open on the same data share changes over BroadcastChannel, with only the longest open tab auto-saving (off by default) */
+  enableCrossTabSync: boolean;
+  /** What to do with changes saved by collaborators after loading */
+  watchMode: WatchMode;
+  /** Seconds between checks for changes saved by collaborators, when storage can't notify of them */
+  watchIntervalSeconds: number;
+  /** Name of the save slot to load and save, each slot keeping a separate version of the state */
+  saveSlot: string;
 }
 
 /**
@@ -32,62 +281,248 @@ const DEFAULT_CONFIG: TeraPluginConfig = {
   keyPrefix: '',
   isSeparateStateForEachUser: false,
   autoSaveIntervalMinutes: 10,
+  autoSaveStrategy: 'interval',
+  autoSaveDebounceSeconds: 5,
+  autoSaveMaxWaitSeconds: 60,
+  saveOnBlur: false,
   showInitialAlert: true,
-  enableSaveHotkey: true
+  enableSaveHotkey: true,
+  stores: {},
+  include: [],
+  exclude: [],
+  conflictStrategy: 'prefer-local',
+  storage: null,
+  enableOfflineJournal: true,
+  journalStorage: null,
+  sessionStorage: null,
+  retryBaseDelaySeconds: 5,
+  retryMaxDelaySeconds: 300,
+  codec: null,
+  enableHistory: false,
+  historyLimit: 50,
+  historyGroupWindowMs: 500,
+  persistHistoryLimit: 0,
+  revisionCount: 0,
+  revisionMaxAgeDays: 0,
+  layout: 'single',
+  lazyLoadShards: false,
+  saveMode: 'full',
+  compactAfterPatches: 20,
+  compression: 'none',
+  maxPayloadBytes: 0,
+  encryption: null,
+  beforeSave: null,
+  afterLoad: null,
+  logLevel: 'warn',
+  redactLogs: true,
+  notifier: null,
+  enableCrossTabSync: false,
+  watchMode: 'off',
+  watchIntervalSeconds: 30,
+  saveSlot: DEFAULT_SAVE_SLOT
 };
 
 /**
  * @enum {string}
  * @description Save status states
  */
-enum SAVE_STATUS {
+export enum SAVE_STATUS {
   SAVED = 'Saved',
   UNSAVED = 'Unsaved changes',
-  SAVING = 'Saving...'
+  SAVING = 'Saving...',
+  CONFLICT = 'Conflict',
+  LOAD_FAILED = 'Load failed'
 }
 
 /**
- * @interface TeraInstance
- * @description Interface for TERA Vue instance properties
+ * @interface SaveEnvelope
+ * @description Versioned wrapper around the saved state tree
  */
-interface TeraInstance {
-  getUser: () => Promise<{ id: string }>;
-  getProjectFileContents: (fileName: string, options: { format: string }) => Promise<any>;
-  setProjectFileContents: (fileName: string, content: any, options: { format: string }) => Promise<void>;
-  uiProgress: (options: any) => Promise<void>;
-  createProjectFile?: (fileName: string) => Promise<void>;
-  setProjectState?: (path: string, value: any) => Promise<void>;
-  project?: {
-    id?: string;
-    temp?: Record<string, any>;
-  };
+export interface SaveEnvelope {
+  /** Version of the envelope format (0 for legacy unwrapped files) */
+  formatVersion: number;
+  /** Version of the plugin which wrote the file */
+  pluginVersion: string;
+  /** ISO timestamp of when the file was written */
+  savedAt: string;
+  /** Schema version of each saved store, keyed by store id */
+  schemaVersions: Record<string, number>;
+  /** Serialized state of each store, keyed by store id */
+  state: StateTree;
+  /** Serialized undo snapshots, oldest first, when history is persisted */
+  history?: StateTree[];
+  /** Stores saved in their own files, keyed by store id, when this envelope is a sharded layout manifest */
+  shards?: Record<string, ShardInfo>;
+  /** Whether saves since this envelope was written are kept in its patch log */
+  patchLog?: boolean;
+  /** Format the state and history were compressed with, when the envelope is compressed */
+  compression?: CompressionFormat;
+  /** Parameters the state and history were encrypted with, when the envelope is encrypted */
+  encryption?: EncryptionHeader;
+  /** Base64 of the compressed and/or encrypted state and history */
+  payload?: string;
 }
 
 /**
- * @interface VueInstance
- * @description Interface for Vue instance with TERA properties
+ * @interface StateBundle
+ * @description Save envelope exported for users to download, share or archive, naming the tool it came from
  */
-interface VueInstance {
-  $tera: TeraInstance;
-  $notify?: (options: { title: string, message: string, type: string, duration: number, showClose: boolean }) => void;
+export interface StateBundle extends SaveEnvelope {
+  /** Marks the file as a state bundle */
+  bundle: typeof STATE_BUNDLE_KIND;
+  /** Key prefix of the plugin which exported it */
+  keyPrefix: string;
+  /** Save slot it was exported from */
+  saveSlot: string;
 }
 
 /**
- * Debug logging utility function
- * @param {...any} args - Arguments to log
+ * @interface ExportOptions
+ * @description Options for exporting state
  */
-const debugLog = (...args: any[]): void => {
-  if (DEBUG) console.log('[TERA File Sync]:', ...args);
-};
+export interface ExportOptions {
+  /** Ids of the stores to export (defaults to every synced store) */
+  stores?: string[];
+  /** How the bundle is written (defaults to 'json') */
+  format?: ExportFormat;
+}
 
 /**
- * Error logging utility function
- * @param {Error} error - The error object
- * @param {string} context - Context description for the error
+ * @interface ImportOptions
+ * @description Options for importing state
  */
-const logError = (error: Error, context: string): void => {
-  console.error(`[TERA File Sync] ${context}:`, error);
-};
+export interface ImportOptions {
+  /** Whether imported stores replace their persisted state or are merged into it (defaults to 'replace') */
+  mode?: ImportMode;
+}
+
+/**
+ * @interface SizeMetrics
+ * @description Size of saved data before and after compression
+ */
+export interface SizeMetrics {
+  /** Size in bytes of the data as plain JSON */
+  rawBytes: number;
+  /** Size in bytes of the data as written to storage */
+  storedBytes: number;
+}
+
+/**
+ * @interface ShardInfo
+ * @description Manifest entry for a store saved in its own file
+ */
+export interface ShardInfo {
+  /** ISO timestamp of when the store file was last written */
+  savedAt: string;
+  /** Schema version the store was saved with */
+  schemaVersion: number;
+}
+
+/**
+ * @interface PatchLogEntry
+ * @description A delta save appended to the patch log
+ */
+interface PatchLogEntry {
+  /** ISO timestamp of when the patch was saved */
+  savedAt: string;
+  /** Schema version of each store after the patch, keyed by store id */
+  schemaVersions: Record<string, number>;
+  /** JSON Patch operations turning the previous serialized state into the saved state */
+  patch: PatchOperation[];
+}
+
+/**
+ * @interface PatchLog
+ * @description Append-only log of delta saves made on top of a full save
+ */
+interface PatchLog {
+  /** ISO timestamp of the full save the patches apply to */
+  baseSavedAt: string;
+  /** Patches in the order they were saved */
+  entries: PatchLogEntry[];
+}
+
+/**
+ * @interface RevisionInfo
+ * @description A previous save kept as a restorable revision
+ */
+export interface RevisionInfo {
+  /** Unique id of the revision */
+  id: string;
+  /** ISO timestamp of when the revision was originally saved */
+  savedAt: string;
+}
+
+/**
+ * @interface RevisionIndex
+ * @description Stored list of revisions and the rotating slots holding them
+ */
+interface RevisionIndex {
+  /** Revisions, newest first, with the slot each is stored in */
+  revisions: (RevisionInfo & { slot: number })[];
+}
+
+/**
+ * @interface SaveSlotIndex
+ * @description Stored list of the save slots created besides the default slot
+ */
+interface SaveSlotIndex {
+  /** Names of the save slots, in the order they were created */
+  slots: string[];
+}
+
+/**
+ * @interface JournalEntry
+ * @description A save which failed to reach storage, kept locally until it can be retried
+ */
+interface JournalEntry {
+  /** The storage file name the save was destined for */
+  fileName: string;
+  /** ISO timestamp of when the save failed */
+  failedAt: string;
+  /** The envelope which failed to save */
+  envelope: SaveEnvelope;
+}
+
+/**
+ * @interface StoreClock
+ * @description Logical version of a store's state shared between tabs, ordered by clock then by the tab which made it
+ */
+interface StoreClock {
+  clock: number;
+  tabId: string;
+}
+
+/**
+ * @interface TabStoreState
+ * @description A store's state as sent to other tabs
+ */
+interface TabStoreState {
+  /** The serialized state */
+  state: any;
+  /** Version of the state */
+  clock: number;
+  /** Version the sending tab's changes were made on, so tabs can tell when both changed the store */
+  base: number;
+}
+
+/**
+ * @typedef {Object} TabMessage
+ * @description A message sent to the other tabs open on the same data: stores changed locally, for every tab or only a
+ * newly opened one, or the time of a save they should reload
+ */
+type TabMessage =
+  | { type: 'state'; stores: Record<string, TabStoreState>; to?: string }
+  | { type: 'saved'; savedAt: string };
+
+/**
+ * @interface VueInstance
+ * @description Interface for Vue instance with TERA properties
+ */
+export interface VueInstance {
+  $tera: TeraInstance;
+  $notify?: (options: NotifyOptions) => void;
+}
 
 /**
  * Validates the plugin configuration
@@ -107,6 +542,22 @@ const validateConfig = (config: TeraPluginConfig): void => {
     throw new Error('autoSaveIntervalMinutes must be a non-negative number');
   }
 
+  if (!['interval', 'debounce'].includes(config.autoSaveStrategy)) {
+    throw new Error('autoSaveStrategy must be "interval" or "debounce"');
+  }
+
+  if (typeof config.autoSaveDebounceSeconds !== 'number' || config.autoSaveDebounceSeconds <= 0) {
+    throw new Error('autoSaveDebounceSeconds must be a positive number');
+  }
+
+  if (typeof config.autoSaveMaxWaitSeconds !== 'number' || config.autoSaveMaxWaitSeconds < config.autoSaveDebounceSeconds) {
+    throw new Error('autoSaveMaxWaitSeconds must be a number no less than autoSaveDebounceSeconds');
+  }
+
+  if (typeof config.saveOnBlur !== 'boolean') {
+    throw new Error('saveOnBlur must be a boolean');
+  }
+
   if (typeof config.showInitialAlert !== 'boolean') {
     throw new Error('showInitialAlert must be a boolean');
   }
@@ -114,6 +565,233 @@ const validateConfig = (config: TeraPluginConfig): void => {
   if (typeof config.enableSaveHotkey !== 'boolean') {
     throw new Error('enableSaveHotkey must be a boolean');
   }
+
+  if (!config.stores || typeof config.stores !== 'object') {
+    throw new Error('stores must be an object');
+  }
+
+  if (!Array.isArray(config.include) || config.include.some(id => typeof id !== 'string')) {
+    throw new Error('include must be an array of strings');
+  }
+
+  if (!Array.isArray(config.exclude) || config.exclude.some(id => typeof id !== 'string')) {
+    throw new Error('exclude must be an array of strings');
+  }
+
+  if (typeof config.conflictStrategy !== 'function' && !['prefer-local', 'prefer-remote'].includes(config.conflictStrategy)) {
+    throw new Error('conflictStrategy must be "prefer-local", "prefer-remote" or a function');
+  }
+
+  (['storage', 'journalStorage', 'sessionStorage'] as const).forEach(option => {
+    const adapter = config[option];
+    if (adapter === null) return;
+
+    (['resolveKey', 'exists', 'create', 'read', 'write'] as const).forEach(method => {
+      if (!adapter || typeof adapter[method] !== 'function') {
+        throw new Error(`${option}.${method} must be a function`);
+      }
+    });
+  });
+
+  if (config.codec !== null && (!config.codec || typeof config.codec.encode !== 'function' || typeof config.codec.decode !== 'function')) {
+    throw new Error('codec must have encode and decode functions');
+  }
+
+  if (typeof config.enableHistory !== 'boolean') {
+    throw new Error('enableHistory must be a boolean');
+  }
+
+  if (!Number.isInteger(config.historyLimit) || config.historyLimit < 1) {
+    throw new Error('historyLimit must be a positive integer');
+  }
+
+  if (typeof config.historyGroupWindowMs !== 'number' || config.historyGroupWindowMs < 0) {
+    throw new Error('historyGroupWindowMs must be a non-negative number');
+  }
+
+  if (!Number.isInteger(config.persistHistoryLimit) || config.persistHistoryLimit < 0 || config.persistHistoryLimit > config.historyLimit) {
+    throw new Error('persistHistoryLimit must be a non-negative integer no greater than historyLimit');
+  }
+
+  if (!Number.isInteger(config.revisionCount) || config.revisionCount < 0) {
+    throw new Error('revisionCount must be a non-negative integer');
+  }
+
+  if (typeof config.revisionMaxAgeDays !== 'number' || config.revisionMaxAgeDays < 0) {
+    throw new Error('revisionMaxAgeDays must be a non-negative number');
+  }
+
+  if (!['single', 'sharded'].includes(config.layout)) {
+    throw new Error('layout must be "single" or "sharded"');
+  }
+
+  if (typeof config.lazyLoadShards !== 'boolean') {
+    throw new Error('lazyLoadShards must be a boolean');
+  }
+
+  if (!['full', 'delta'].includes(config.saveMode)) {
+    throw new Error('saveMode must be "full" or "delta"');
+  }
+
+  if (config.saveMode === 'delta' && config.layout !== 'single') {
+    throw new Error('saveMode "delta" requires the single layout');
+  }
+
+  if (!Number.isInteger(config.compactAfterPatches) || config.compactAfterPatches < 1) {
+    throw new Error('compactAfterPatches must be a positive integer');
+  }
+
+  if (!['none', 'gzip', 'deflate'].includes(config.compression)) {
+    throw new Error('compression must be "none", "gzip" or "deflate"');
+  }
+
+  if (typeof config.maxPayloadBytes !== 'number' || config.maxPayloadBytes < 0) {
+    throw new Error('maxPayloadBytes must be a non-negative number');
+  }
+
+  if (config.encryption !== null) {
+    const { encryption } = config;
+    if (!encryption || typeof encryption !== 'object') {
+      throw new Error('encryption must be an object or null');
+    }
+
+    if (typeof encryption.getKey !== 'function' && typeof encryption.getPassphrase !== 'function') {
+      throw new Error('encryption must have a getKey or getPassphrase function');
+    }
+
+    if (encryption.keyId !== undefined && (typeof encryption.keyId !== 'string' || !encryption.keyId)) {
+      throw new Error('encryption.keyId must be a non-empty string');
+    }
+
+    if (encryption.iterations !== undefined && (!Number.isInteger(encryption.iterations) || encryption.iterations < 1)) {
+      throw new Error('encryption.iterations must be a positive integer');
+    }
+  }
+
+  (['beforeSave', 'afterLoad'] as const).forEach(option => {
+    if (config[option] !== null && typeof config[option] !== 'function') {
+      throw new Error(`${option} must be a function or null`);
+    }
+  });
+
+  if (!isLogLevel(config.logLevel)) {
+    throw new Error('logLevel must be "silent", "error", "warn", "info" or "debug"');
+  }
+
+  if (typeof config.redactLogs !== 'boolean') {
+    throw new Error('redactLogs must be a boolean');
+  }
+
+  if (config.notifier !== null && typeof config.notifier?.notify !== 'function') {
+    throw new Error('notifier must have a notify function, or be null');
+  }
+
+  if (typeof config.enableCrossTabSync !== 'boolean') {
+    throw new Error('enableCrossTabSync must be a boolean');
+  }
+
+  if (!['off', 'apply', 'notify'].includes(config.watchMode)) {
+    throw new Error('watchMode must be "off", "apply" or "notify"');
+  }
+
+  if (typeof config.watchIntervalSeconds !== 'number' || config.watchIntervalSeconds <= 0) {
+    throw new Error('watchIntervalSeconds must be a positive number');
+  }
+
+  if (!isSaveSlotName(config.saveSlot)) {
+    throw new Error('saveSlot must be a non-empty string of letters, digits, "-" and "_"');
+  }
+
+  if (typeof config.enableOfflineJournal !== 'boolean') {
+    throw new Error('enableOfflineJournal must be a boolean');
+  }
+
+  if (typeof config.retryBaseDelaySeconds !== 'number' || config.retryBaseDelaySeconds <= 0) {
+    throw new Error('retryBaseDelaySeconds must be a positive number');
+  }
+
+  if (typeof config.retryMaxDelaySeconds !== 'number' || config.retryMaxDelaySeconds < config.retryBaseDelaySeconds) {
+    throw new Error('retryMaxDelaySeconds must be a number no less than retryBaseDelaySeconds');
+  }
+
+  Object.entries(config.stores).forEach(([storeId, storeConfig]) => {
+    validateStoreConfig(storeId, storeConfig);
+  });
+};
+
+/**
+ * Checks whether a value can name a save slot, being usable in storage keys
+ * @param {any} name - The value to check
+ * @returns {boolean} Whether the value is a valid save slot name
+ */
+const isSaveSlotName = (name: any): name is string => typeof name === 'string' && /^[A-Za-z0-9_-]+$/.test(name);
+
+/**
+ * Gets the id of the status store of a plugin
+ * @param {string} keyPrefix - The plugin's key prefix
+ * @returns {string} The status store id
+ */
+const getSyncStatusStoreId = (keyPrefix: string): string => {
+  return keyPrefix ? `${SYNC_STATUS_STORE_ID}:${keyPrefix}` : SYNC_STATUS_STORE_ID;
+};
+
+/**
+ * Checks whether a store is the status store of any plugin
+ * @param {string} storeId - The store id
+ * @returns {boolean} Whether the store is a status store
+ */
+const isSyncStatusStoreId = (storeId: string): boolean => {
+  return storeId === SYNC_STATUS_STORE_ID || storeId.startsWith(`${SYNC_STATUS_STORE_ID}:`);
+};
+
+/**
+ * Validates the configuration of a single store
+ * @param {string} storeId - The store id
+ * @param {TeraStoreConfig} storeConfig - The store configuration to validate
+ * @throws {Error} If the store configuration is invalid
+ */
+const validateStoreConfig = (storeId: string, storeConfig: TeraStoreConfig): void => {
+  if (storeConfig.enabled !== undefined && typeof storeConfig.enabled !== 'boolean') {
+    throw new Error(`stores.${storeId}.enabled must be a boolean`);
+  }
+
+  (['pick', 'omit'] as const).forEach(option => {
+    const paths = storeConfig[option];
+    if (paths !== undefined && (!Array.isArray(paths) || paths.some(path => typeof path !== 'string' || !path))) {
+      throw new Error(`stores.${storeId}.${option} must be an array of non-empty strings`);
+    }
+  });
+
+  if (storeConfig.version !== undefined && (!Number.isInteger(storeConfig.version) || storeConfig.version < 1)) {
+    throw new Error(`stores.${storeId}.version must be a positive integer`);
+  }
+
+  Object.entries(storeConfig.migrations ?? {}).forEach(([version, migration]) => {
+    if (!Number.isInteger(Number(version)) || Number(version) < 2) {
+      throw new Error(`stores.${storeId}.migrations keys must be integers greater than 1`);
+    }
+    if (typeof migration !== 'function') {
+      throw new Error(`stores.${storeId}.migrations[${version}] must be a function`);
+    }
+  });
+
+  if (storeConfig.validate !== undefined && typeof storeConfig.validate !== 'function') {
+    throw new Error(`stores.${storeId}.validate must be a function`);
+  }
+
+  if (storeConfig.onInvalid !== undefined && !['reject', 'strip', 'defaults', 'quarantine'].includes(storeConfig.onInvalid)) {
+    throw new Error(`stores.${storeId}.onInvalid must be "reject", "strip", "defaults" or "quarantine"`);
+  }
+
+  if (storeConfig.scope !== undefined && !STORE_SCOPES.includes(storeConfig.scope)) {
+    throw new Error(`stores.${storeId}.scope must be "project", "user" or "session"`);
+  }
+
+  Object.entries(storeConfig.pathScopes ?? {}).forEach(([path, scope]) => {
+    if (!path || !STORE_SCOPES.includes(scope)) {
+      throw new Error(`stores.${storeId}.pathScopes must map non-empty paths to "project", "user" or "session"`);
+    }
+  });
 };
 
 /**
@@ -148,127 +826,628 @@ const validateVueInstance = (instance: VueInstance | null): void => {
 };
 
 /**
- * Converts Maps and Sets to plain objects and arrays for serialization
- * @param {any} item - The item to convert
- * @returns {any} The converted item
- */
-const mapSetToObject = (item: any): any => {
-  try {
-    if (item instanceof Map) {
-      debugLog('Converting Map to object');
-      const obj: Record<string | number, any> = { __isMap: true };
-      item.forEach((value, key) => {
-        obj[key as string | number] = mapSetToObject(value);
-      });
-      return obj;
-    }
-
-    if (item instanceof Set) {
-      debugLog('Converting Set to array');
-      return {
-        __isSet: true,
-        values: Array.from(item).map(mapSetToObject)
-      };
-    }
-
-    if (Array.isArray(item)) {
-      return item.map(mapSetToObject);
-    }
-
-    if (item && typeof item === 'object' && !(item instanceof Date)) {
-      const obj: Record<string, any> = {};
-      Object.entries(item).forEach(([key, value]) => {
-        obj[key] = mapSetToObject(value);
-      });
-      return obj;
-    }
-
-    return item;
-  } catch (error) {
-    logError(error as Error, 'mapSetToObject conversion failed');
-    return item;
-  }
-};
-
-/**
- * Converts serialized objects back to Maps and Sets
+ * Converts objects serialized by format versions before 2 back to Maps and Sets
  * @param {any} obj - The object to convert
+ * @param {Logger} logger - Logger for the conversion
  * @returns {any} The converted object with Maps and Sets restored
  */
-const objectToMapSet = (obj: any): any => {
+const objectToMapSet = (obj: any, logger: Logger): any => {
   try {
     if (!obj || typeof obj !== 'object' || obj instanceof Date) {
       return obj;
     }
 
     if ('__isMap' in obj) {
-      debugLog('Converting object back to Map');
+      logger.debug('Converting object back to Map');
       const map = new Map();
       Object.entries(obj).forEach(([key, value]) => {
         if (key !== '__isMap') {
-          map.set(key, objectToMapSet(value));
+          map.set(key, objectToMapSet(value, logger));
         }
       });
       return map;
     }
 
     if ('__isSet' in obj) {
-      debugLog('Converting array back to Set');
-      return new Set((obj.values as any[]).map(objectToMapSet));
+      logger.debug('Converting array back to Set');
+      return new Set((obj.values as any[]).map(value => objectToMapSet(value, logger)));
     }
 
     if (Array.isArray(obj)) {
-      return obj.map(objectToMapSet);
+      return obj.map(value => objectToMapSet(value, logger));
     }
 
     const newObj: Record<string, any> = {};
     Object.entries(obj).forEach(([key, value]) => {
-      newObj[key] = objectToMapSet(value);
+      newObj[key] = objectToMapSet(value, logger);
     });
     return newObj;
   } catch (error) {
-    logError(error as Error, 'objectToMapSet conversion failed');
+    logger.error('objectToMapSet conversion failed:', error);
     return obj;
   }
 };
 
 /**
- * Shows an alert notification to the user
- * @param {string} message - The message to display
+ * Checks whether loaded file content is a versioned save envelope
+ * @param {any} content - The loaded file content
+ * @returns {boolean} Whether the content is a save envelope
  */
-const showNotification = (message: string): void => {
-  if (typeof window !== 'undefined' && window.alert) {
-    window.alert(message);
-  } else {
-    debugLog('Alert would be shown:', message);
-  }
+const isSaveEnvelope = (content: any): content is SaveEnvelope => {
+  return !!content
+    && typeof content === 'object'
+    && typeof content.formatVersion === 'number'
+    && !!content.state
+    && typeof content.state === 'object';
 };
 
 /**
- * @interface SyncStoreState
- * @description State interface for the sync status store
+ * Wraps loaded file content in a save envelope, treating unwrapped files as legacy format
+ * @param {any} content - The loaded file content
+ * @param {Logger} logger - Logger noting legacy files
+ * @returns {SaveEnvelope} The normalized envelope
  */
-interface SyncStoreState {
-  saveStatus: SAVE_STATUS;
-}
+const normalizeEnvelope = (content: any, logger: Logger): SaveEnvelope => {
+  if (isSaveEnvelope(content)) {
+    return {
+      ...content,
+      schemaVersions: content.schemaVersions ?? {}
+    };
+  }
+
+  logger.debug('Loaded legacy save file without envelope');
+  return {
+    formatVersion: 0,
+    pluginVersion: 'unknown',
+    savedAt: '',
+    schemaVersions: {},
+    state: content
+  };
+};
 
 /**
- * @class TeraFileSyncPlugin
- * @description Plugin class for syncing Pinia store state with TERA JSON files
+ * Removes top-level keys which aren't in a store's default state
+ * @param {Record<string, any>} state - The state to strip
+ * @param {Record<string, any>} defaults - The store's default state
+ * @returns {Record<string, any>} The state with only known keys
  */
-class TeraFileSyncPlugin {
+const stripUnknownKeys = (state: Record<string, any>, defaults: Record<string, any>): Record<string, any> => {
+  return Object.keys(state).reduce((stripped, key) => {
+    if (key in defaults) stripped[key] = state[key];
+    return stripped;
+  }, {} as Record<string, any>);
+};
+
+/**
+ * Resets the top-level keys containing validation problems to their default values
+ * @param {Record<string, any>} state - The invalid state
+ * @param {Record<string, any>} defaults - The store's default state
+ * @param {ValidationIssue[]} issues - Problems found in the state
+ * @returns {Record<string, any>} The state with invalid keys reset, or the defaults if the state itself is invalid
+ */
+const fillDefaults = (state: Record<string, any>, defaults: Record<string, any>, issues: ValidationIssue[]): Record<string, any> => {
+  if (!state || typeof state !== 'object' || issues.some(issue => !issue.path.length)) return defaults;
+
+  const filled = { ...state };
+  issues.forEach(issue => {
+    const key = String(issue.path[0]);
+    if (key in defaults) {
+      filled[key] = defaults[key];
+    } else {
+      delete filled[key];
+    }
+  });
+  return filled;
+};
+
+/**
+ * Gets the size of a value once serialized to JSON
+ * @param {any} value - The value to measure
+ * @returns {number} The size in UTF-8 bytes
+ */
+const getByteLength = (value: any): number => {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+};
+
+/**
+ * Replays the patches of a patch log onto the full save they were made against
+ * @param {SaveEnvelope} envelope - The full save envelope
+ * @param {PatchLog} patchLog - The patch log of the envelope
+ * @returns {SaveEnvelope} The envelope as of the last patch
+ * @throws {Error} If a patch cannot be applied
+ */
+const applyPatchLog = (envelope: SaveEnvelope, patchLog: PatchLog): SaveEnvelope => {
+  return patchLog.entries.reduce((patched, entry) => ({
+    ...patched,
+    savedAt: entry.savedAt,
+    schemaVersions: entry.schemaVersions,
+    state: applyPatch(patched.state, entry.patch)
+  }), envelope);
+};
+
+/**
+ * Gets the current schema version declared for a store
+ * @param {TeraStoreConfig} [storeConfig] - The store configuration
+ * @returns {number} The store schema version
+ */
+const getStoreSchemaVersion = (storeConfig?: TeraStoreConfig): number => {
+  if (storeConfig?.version !== undefined) return storeConfig.version;
+
+  const migrationVersions = Object.keys(storeConfig?.migrations ?? {}).map(Number);
+  return migrationVersions.length ? Math.max(...migrationVersions) : 1;
+};
+
+/**
+ * Runs the pending migrations for a store state in version order
+ * @param {string} storeId - The store id
+ * @param {any} state - The state as saved
+ * @param {number} fromVersion - The schema version the state was saved with
+ * @param {TeraStoreConfig} storeConfig - The store configuration
+ * @param {Logger} logger - Logger for the migrations run
+ * @returns {any} The migrated state
+ */
+const migrateStoreState = (storeId: string, state: any, fromVersion: number, storeConfig: TeraStoreConfig, logger: Logger): any => {
+  const targetVersion = getStoreSchemaVersion(storeConfig);
+
+  if (fromVersion > targetVersion) {
+    logger.warn(`Store ${storeId} was saved with schema version ${fromVersion} which is newer than ${targetVersion}, loading as-is`);
+    return state;
+  }
+
+  const migrations = storeConfig?.migrations ?? {};
+  return Object.keys(migrations)
+    .map(Number)
+    .filter(version => version > fromVersion && version <= targetVersion)
+    .sort((a, b) => a - b)
+    .reduce((migratedState, version) => {
+      logger.debug(`Migrating store ${storeId} to schema version ${version}`);
+      return migrations[version](migratedState);
+    }, state);
+};
+
+/**
+ * Copies only the given dot-paths of a state object
+ * @param {Record<string, any>} state - The state to pick from
+ * @param {string[]} paths - Dot-paths to keep
+ * @returns {Record<string, any>} A new object containing only the picked paths
+ */
+const pickPaths = (state: Record<string, any>, paths: string[]): Record<string, any> => {
+  const picked: Record<string, any> = {};
+
+  paths.forEach(path => {
+    const segments = path.split('.');
+    let source: any = state;
+    for (const segment of segments) {
+      if (!source || typeof source !== 'object' || !(segment in source)) return;
+      source = source[segment];
+    }
+
+    let target = picked;
+    segments.slice(0, -1).forEach(segment => {
+      if (!target[segment] || typeof target[segment] !== 'object') target[segment] = {};
+      target = target[segment];
+    });
+    target[segments[segments.length - 1]] = source;
+  });
+
+  return picked;
+};
+
+/**
+ * Copies a state object without the given dot-paths, leaving the original untouched
+ * @param {Record<string, any>} state - The state to omit from
+ * @param {string[]} paths - Dot-paths to remove
+ * @returns {Record<string, any>} A new object without the omitted paths
+ */
+const omitPaths = (state: Record<string, any>, paths: string[]): Record<string, any> => {
+  const result: Record<string, any> = { ...state };
+
+  paths.forEach(path => {
+    const segments = path.split('.');
+    let target: Record<string, any> = result;
+    for (const segment of segments.slice(0, -1)) {
+      const next = target[segment];
+      if (!next || typeof next !== 'object' || Array.isArray(next)) return;
+      // Clone each level before descending so the source state is not mutated
+      target[segment] = { ...next };
+      target = target[segment];
+    }
+    delete target[segments[segments.length - 1]];
+  });
+
+  return result;
+};
+
+/**
+ * Applies a store's pick/omit configuration to its state
+ * @param {Record<string, any>} state - The store state
+ * @param {TeraStoreConfig} [storeConfig] - The store configuration
+ * @returns {Record<string, any>} The state limited to the persisted paths
+ */
+const filterStoreState = (state: Record<string, any>, storeConfig?: TeraStoreConfig): Record<string, any> => {
+  let filtered = state;
+  if (storeConfig?.pick) filtered = pickPaths(filtered, storeConfig.pick);
+  if (storeConfig?.omit) filtered = omitPaths(filtered, storeConfig.omit);
+  return filtered;
+};
+
+/**
+ * Splits a store's state into the parts saved in each scope
+ * @param {Record<string, any>} state - The store state
+ * @param {StoreScope} storeScope - The scope of the store
+ * @param {Record<string, StoreScope>} pathScopes - Scopes of state properties, by dot-path
+ * @returns {Object} The state of each scope holding any of the store's state
+ */
+const splitStoreState = (
+  state: Record<string, any>,
+  storeScope: StoreScope,
+  pathScopes: Record<string, StoreScope>
+): Partial<Record<StoreScope, Record<string, any>>> => {
+  const scopedPaths = Object.keys(pathScopes).filter(path => pathScopes[path] !== storeScope);
+  if (!scopedPaths.length) return { [storeScope]: state };
+
+  const parts: Partial<Record<StoreScope, Record<string, any>>> = { [storeScope]: omitPaths(state, scopedPaths) };
+  STORE_SCOPES.forEach(scope => {
+    const paths = scopedPaths.filter(path => pathScopes[path] === scope);
+    if (paths.length) parts[scope] = pickPaths(state, paths);
+  });
+  return parts;
+};
+
+/**
+ * Checks whether a value is a plain object, rather than an array, class instance or primitive
+ * @param {any} value - The value to check
+ * @returns {boolean} Whether the value is a plain object
+ */
+const isPlainObject = (value: any): value is Record<string, any> => {
+  return Object.prototype.toString.call(value) === '[object Object]';
+};
+
+/**
+ * Merges the part of a store's state saved in another scope back into it
+ * @param {any} state - The store state
+ * @param {any} part - The part saved in another scope
+ * @returns {any} The merged state
+ */
+const mergeScopedState = (state: any, part: any): any => {
+  if (!isPlainObject(state) || !isPlainObject(part)) return part;
+
+  const merged: Record<string, any> = { ...state };
+  Object.keys(part).forEach(key => {
+    merged[key] = key in state ? mergeScopedState(state[key], part[key]) : part[key];
+  });
+  return merged;
+};
+
+/**
+ * Gets the parts of a store's state which its pick/omit configuration leaves out of saves
+ * @param {Record<string, any>} state - The store state
+ * @param {TeraStoreConfig} [storeConfig] - The store configuration
+ * @returns {Record<string, any>} The state of the paths which aren't persisted
+ */
+const getUnpersistedState = (state: Record<string, any>, storeConfig?: TeraStoreConfig): Record<string, any> => {
+  const omitted = storeConfig?.omit ? pickPaths(state, storeConfig.omit) : {};
+  if (!storeConfig?.pick) return omitted;
+  return mergeScopedState(omitPaths(state, storeConfig.pick), omitted);
+};
+
+/**
+ * Replaces an object's state in place, recursing into plain objects and deleting keys the new state doesn't have
+ * @param {Record<string, any>} target - The object to update
+ * @param {Record<string, any>} state - The state to replace it with
+ */
+const replaceObjectState = (target: Record<string, any>, state: Record<string, any>): void => {
+  Object.keys(target).forEach(key => {
+    if (!(key in state)) delete target[key];
+  });
+  Object.keys(state).forEach(key => {
+    if (isPlainObject(target[key]) && isPlainObject(state[key])) {
+      replaceObjectState(target[key], state[key]);
+    } else {
+      target[key] = state[key];
+    }
+  });
+};
+
+/**
+ * @interface SyncStoreState
+ * @description State interface for the sync status store
+ */
+export interface SyncStoreState {
+  saveStatus: SAVE_STATUS;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Size of the data written by the last successful save */
+  lastSaveSize: SizeMetrics | null;
+  /** Serialized size in bytes of each saved store, keyed by store id */
+  storeSizes: Record<string, number>;
+  /** Why saved state failed to load, while saving is blocked */
+  loadError: LoadErrorInfo | null;
+  /** Validation problems of stores whose state was last found invalid, keyed by store id */
+  invalidStores: Record<string, ValidationIssue[]>;
+  /** Whether a collaborator saved changes which haven't been applied yet */
+  remoteChangesAvailable: boolean;
+  /** Whether changes from a save which failed before the tab closed can be restored */
+  journaledChangesAvailable: boolean;
+  /** Name of the save slot being loaded and saved */
+  saveSlot: string;
+}
+
+/**
+ * @interface LoadErrorInfo
+ * @description Why saved state failed to load, as shown on the sync status store
+ */
+export interface LoadErrorInfo {
+  /** Why the load failed */
+  reason: LoadFailureReason;
+  /** Description of the failure */
+  message: string;
+}
+
+/**
+ * @interface TeraSyncEvents
+ * @description Payloads of the save and load lifecycle events, keyed by event name
+ */
+export interface TeraSyncEvents {
+  /** State is about to be written, after `beforeSave` transforms and validation */
+  beforeSave: { fileName: string; state: StateTree };
+  /** State was written */
+  afterSave: { fileName: string; size: SizeMetrics };
+  /** Writing state failed */
+  saveError: { error: Error; willRetry: boolean };
+  /** Saved state is about to be read */
+  beforeLoad: { fileName: string };
+  /** Loading finished, with the loaded envelope (null if nothing was saved yet) or why it failed */
+  afterLoad: { envelope: SaveEnvelope | null; error: LoadError | null };
+  /** Stores were changed locally and not saved yet */
+  dirty: { storeIds: string[] };
+  /** Keys were changed both locally and by another collaborator, before the conflicts are resolved */
+  conflict: { conflicts: SyncConflict[] };
+  /** A collaborator saved changes, which were applied or are waiting to be applied */
+  remoteChange: { envelope: SaveEnvelope; applied: boolean };
+  /** The stores switched to another save slot */
+  slotSwitch: { from: string; to: string };
+}
+
+/**
+ * @interface TeraFileSyncApi
+ * @description The `$teraFileSync` API added to every store by the plugin
+ */
+export interface TeraFileSyncApi {
+  /** Marks TERA as ready and loads the saved state */
+  setTeraReady: () => Promise<void>;
+  /** Sets the Vue instance providing `$tera` and `$notify` */
+  setVueInstance: (instance: VueInstance) => void;
+  /** Saves all stores, resolving to whether the save was successful */
+  saveState: () => Promise<boolean>;
+  /** Gets the current save status */
+  getSaveStatus: () => SAVE_STATUS;
+  /** Restores the state from before the last group of changes, resolving to whether there was anything to undo */
+  undo: () => Promise<boolean>;
+  /** Re-applies the last undone group of changes, resolving to whether there was anything to redo */
+  redo: () => Promise<boolean>;
+  /** Lists the previous saves which can be restored, newest first */
+  listRevisions: () => Promise<RevisionInfo[]>;
+  /** Gets the state saved in a revision, keyed by store id, without applying it */
+  previewRevision: (id: string) => Promise<StateTree>;
+  /** Restores the stores to a revision, leaving the change unsaved */
+  restoreRevision: (id: string) => Promise<void>;
+  /** Switches saves to another encryption key and re-saves every store with it */
+  rotateEncryptionKey: (keyId: string) => Promise<boolean>;
+  /** Gets why saved state failed to load, while saving is blocked */
+  getLoadError: () => LoadError | null;
+  /** Tries loading saved state again after a failed load */
+  retryLoad: () => Promise<boolean>;
+  /** Backs up the file which failed to load, then continues from default state */
+  startFresh: () => Promise<void>;
+  /** Restores the changes from a save which failed before the tab closed, resolving to whether there were any */
+  restoreJournaledChanges: () => Promise<boolean>;
+  /** Discards the changes from a save which failed before the tab closed */
+  discardJournaledChanges: () => Promise<void>;
+  /** Checks for changes saved by collaborators, applying or announcing them as configured by `watchMode` */
+  checkRemoteChanges: () => Promise<void>;
+  /** Merges the latest changes saved by collaborators into the stores, resolving to whether there were any */
+  applyRemoteChanges: () => Promise<boolean>;
+  /** Gets the name of the save slot being loaded and saved */
+  getSlot: () => string;
+  /** Lists the names of the save slots, starting with the default slot */
+  listSlots: () => Promise<string[]>;
+  /** Saves the current slot, then loads another, which starts as a copy of the current state if it is new */
+  switchSlot: (name: string) => Promise<boolean>;
+  /** Exports the state of the stores as a JSON bundle, for users to download, share or archive */
+  exportState: (options?: ExportOptions) => Promise<Blob>;
+  /** Applies a bundle from `exportState` as an unsaved, undoable change, resolving to the ids of the stores applied */
+  importState: (file: Blob | string | object, options?: ImportOptions) => Promise<string[]>;
+  /** Registers a handler for a save or load lifecycle event, returning a function which removes it */
+  on: <K extends keyof TeraSyncEvents>(event: K, handler: EventHandler<TeraSyncEvents[K]>) => () => void;
+  /** Cleans up the plugin */
+  destroy: () => void;
+}
+
+declare module 'pinia' {
+  export interface PiniaCustomProperties<Id extends string = string, S extends StateTree = StateTree, G = _GettersTree<S>, A = _ActionsTree> {
+    /** TERA file sync API, added to every store by the plugin */
+    $teraFileSync: TeraFileSyncApi;
+  }
+
+  export interface DefineStoreOptionsBase<S extends StateTree, Store> {
+    /** Persistence options for this store, or a boolean to always or never persist it */
+    teraSync?: TeraStoreConfig | boolean;
+  }
+}
+
+/**
+ * Defines the Pinia store holding the sync status of a plugin, whose actions call the plugin through the
+ * `$teraFileSync` API it is given
+ * @param {string} id - The store id
+ * @returns {Function} The store definition
+ */
+const defineSyncStatusStore = (id: string) => defineStore(id, {
+  state: (): SyncStoreState => ({
+    saveStatus: SAVE_STATUS.SAVED,
+    canUndo: false,
+    canRedo: false,
+    lastSaveSize: null,
+    storeSizes: {},
+    loadError: null,
+    invalidStores: {},
+    remoteChangesAvailable: false,
+    journaledChangesAvailable: false,
+    saveSlot: DEFAULT_SAVE_SLOT
+  }),
+  actions: {
+    updateSaveStatus(status: SAVE_STATUS) {
+      this.saveStatus = status;
+    },
+    updateHistoryStatus(canUndo: boolean, canRedo: boolean) {
+      this.canUndo = canUndo;
+      this.canRedo = canRedo;
+    },
+    updateSizeMetrics(lastSaveSize: SizeMetrics | null, storeSizes: Record<string, number>) {
+      this.lastSaveSize = lastSaveSize;
+      this.storeSizes = storeSizes;
+    },
+    updateLoadError(loadError: LoadErrorInfo | null) {
+      this.loadError = loadError;
+    },
+    updateValidationIssues(storeId: string, issues: ValidationIssue[] | null) {
+      const { [storeId]: previous, ...invalidStores } = this.invalidStores;
+      this.invalidStores = issues ? { ...invalidStores, [storeId]: issues } : invalidStores;
+    },
+    updateRemoteChanges(remoteChangesAvailable: boolean) {
+      this.remoteChangesAvailable = remoteChangesAvailable;
+    },
+    updateJournaledChanges(journaledChangesAvailable: boolean) {
+      this.journaledChangesAvailable = journaledChangesAvailable;
+    },
+    updateSaveSlot(saveSlot: string) {
+      this.saveSlot = saveSlot;
+    },
+    switchSlot(name: string): Promise<boolean> {
+      return this.$teraFileSync.switchSlot(name);
+    },
+    applyRemoteChanges(): Promise<boolean> {
+      return this.$teraFileSync.applyRemoteChanges();
+    },
+    retryLoad(): Promise<boolean> {
+      return this.$teraFileSync.retryLoad();
+    },
+    startFresh(): Promise<void> {
+      return this.$teraFileSync.startFresh();
+    },
+    restoreJournaledChanges(): Promise<boolean> {
+      return this.$teraFileSync.restoreJournaledChanges();
+    },
+    discardJournaledChanges(): Promise<void> {
+      return this.$teraFileSync.discardJournaledChanges();
+    },
+    undo(): Promise<boolean> {
+      return this.$teraFileSync.undo();
+    },
+    redo(): Promise<boolean> {
+      return this.$teraFileSync.redo();
+    }
+  }
+});
+
+/**
+ * Status store definitions, keyed by store id so each plugin's store is defined once
+ */
+const syncStatusStores = new Map<string, ReturnType<typeof defineSyncStatusStore>>();
+
+/**
+ * Key prefix of the first plugin created, whose status store is used when no key prefix is given
+ */
+let defaultKeyPrefix: string | null = null;
+
+/**
+ * Plugin syncing each store, keyed by Pinia instance then store id, so each store is synced by the first plugin
+ * claiming it rather than by every plugin including it
+ */
+const storeOwners = new WeakMap<Pinia, Map<string, TeraFileSyncPlugin>>();
+
+/**
+ * @typedef {Object} TeraSyncStatusStore
+ * @description The sync status store returned by `useTeraSyncStatus`
+ */
+export type TeraSyncStatusStore = ReturnType<ReturnType<typeof defineSyncStatusStore>>;
+
+/**
+ * Gets the sync status store of a plugin, for showing the save status and offering undo, redo and load recovery
+ * @param {Pinia} [pinia] - The Pinia instance, if not called inside a component's setup
+ * @param {string} [keyPrefix] - Key prefix of the plugin (defaults to the first plugin created)
+ * @returns {TeraSyncStatusStore} The sync status store
+ */
+export const useTeraSyncStatus = (pinia?: Pinia | null, keyPrefix?: string): TeraSyncStatusStore => {
+  const id = getSyncStatusStoreId(keyPrefix ?? defaultKeyPrefix ?? '');
+  let useSyncStatusStore = syncStatusStores.get(id);
+  if (!useSyncStatusStore) {
+    useSyncStatusStore = defineSyncStatusStore(id);
+    syncStatusStores.set(id, useSyncStatusStore);
+  }
+  return useSyncStatusStore(pinia ?? undefined);
+};
+
+/**
+ * @class TeraFileSyncPlugin
+ * @description Plugin class for syncing Pinia store state with TERA JSON files
+ */
+class TeraFileSyncPlugin {
   private config: TeraPluginConfig;
   private initialized: boolean;
   private teraReady: boolean;
   private vueInstance: VueInstance | null;
   private userId: string | null;
-  private saveInProgress: boolean;
   private autoSaveInterval: number | null;
   private saveStatus: SAVE_STATUS;
   private hasShownInitialAlert: boolean;
-  private keydownHandler: (event: KeyboardEvent) => void;
+  private unregisterSaveHotkey: (() => void) | null;
+  private saveSlot: string;
   private beforeUnloadHandler: (event: BeforeUnloadEvent) => string | undefined;
-  private syncStatusStore: Store | null;
+  private syncStatusStore: TeraSyncStatusStore | null;
+  private storeOptions: Map<string, TeraStoreConfig | boolean>;
+  private baseSnapshot: SaveEnvelope | null;
+  private storage: StorageAdapter;
+  private journalStorage: StorageAdapter;
+  private sessionStorage: StorageAdapter;
+  private scopeSnapshots: Map<StoreScope, SaveEnvelope | null>;
+  private codec: Codec;
+  private encryptor: Encryptor | null;
+  private hasJournalEntry: boolean;
+  private journaledChanges: JournalEntry | null;
+  private retryTimeout: number | null;
+  private retryAttempt: number;
+  private onlineHandler: () => void;
+  private blurHandler: () => void;
+  private debounceTimeout: number | null;
+  private maxWaitTimeout: number | null;
+  private currentSave: Promise<boolean> | null;
+  private pendingSave: Promise<boolean> | null;
+  private dirtyGeneration: number;
+  private isHydrating: boolean;
+  private remoteChanges: SaveEnvelope | null;
+  private isCheckingRemote: boolean;
+  private watchInterval: ReturnType<typeof setInterval> | null;
+  private unwatchRemote: (() => void) | null;
+  private undoStack: StateTree[];
+  private redoStack: StateTree[];
+  private historySnapshot: StateTree | null;
+  private historyGroupTimeout: number | null;
+  private pinia: Pinia | null;
+  private trackedStores: Map<string, Store>;
+  private dirtyStores: Set<string>;
+  private manifest: SaveEnvelope | null;
+  private forceFullSave: boolean;
+  private loadError: LoadError | null;
+  private defaultStates: Map<string, any>;
+  private invalidStores: Map<string, ValidationIssue[]>;
+  private events: EventEmitter<TeraSyncEvents>;
+  private logger: Logger;
+  private notifier: Notifier;
+  private tabCoordinator: TabCoordinator<TabMessage> | null;
+  private pendingTabStores: Map<string, number>;
+  private storeClocks: Map<string, StoreClock>;
+  private tabBroadcastTimeout: ReturnType<typeof setTimeout> | null;
 
   /**
    * @constructor
@@ -280,34 +1459,197 @@ class TeraFileSyncPlugin {
     validateConfig(mergedConfig);
 
     this.config = mergedConfig;
+    this.logger = createLogger({ level: mergedConfig.logLevel, redact: mergedConfig.redactLogs });
+    this.notifier = mergedConfig.notifier ?? this.createDefaultNotifier();
     this.initialized = false;
     this.teraReady = false;
     this.vueInstance = null;
     this.userId = null;
-    this.saveInProgress = false;
     this.autoSaveInterval = null;
     this.saveStatus = SAVE_STATUS.SAVED;
     this.hasShownInitialAlert = false;
-    this.keydownHandler = this.handleKeyDown.bind(this);
+    this.unregisterSaveHotkey = null;
+    this.saveSlot = mergedConfig.saveSlot;
     this.beforeUnloadHandler = this.handleBeforeUnload.bind(this);
     this.syncStatusStore = null;
+    this.storeOptions = new Map();
+    this.baseSnapshot = null;
+    this.storage = mergedConfig.storage ?? createTeraStorageAdapter(
+      () => this.vueInstance?.$tera ?? null,
+      mergedConfig.keyPrefix,
+      this.logger
+    );
+    this.journalStorage = mergedConfig.journalStorage ?? createLocalStorageAdapter({ prefix: 'tera-file-sync-journal:' });
+    this.sessionStorage = mergedConfig.sessionStorage ?? createSessionStorageAdapter();
+    this.scopeSnapshots = new Map();
+    this.codec = mergedConfig.codec ?? defaultCodec;
+    this.encryptor = mergedConfig.encryption ? createEncryptor(mergedConfig.encryption) : null;
+    this.hasJournalEntry = false;
+    this.journaledChanges = null;
+    this.retryTimeout = null;
+    this.retryAttempt = 0;
+    this.onlineHandler = this.handleOnline.bind(this);
+    this.blurHandler = this.handleBlur.bind(this);
+    this.debounceTimeout = null;
+    this.maxWaitTimeout = null;
+    this.currentSave = null;
+    this.pendingSave = null;
+    this.dirtyGeneration = 0;
+    this.isHydrating = false;
+    this.remoteChanges = null;
+    this.isCheckingRemote = false;
+    this.watchInterval = null;
+    this.unwatchRemote = null;
+    this.undoStack = [];
+    this.redoStack = [];
+    this.historySnapshot = null;
+    this.historyGroupTimeout = null;
+    this.pinia = null;
+    this.trackedStores = new Map();
+    this.dirtyStores = new Set();
+    this.manifest = null;
+    this.forceFullSave = false;
+    this.loadError = null;
+    this.defaultStates = new Map();
+    this.invalidStores = new Map();
+    this.tabCoordinator = null;
+    this.pendingTabStores = new Map();
+    this.storeClocks = new Map();
+    this.tabBroadcastTimeout = null;
+    this.events = createEventEmitter<TeraSyncEvents>((error, event) => this.logger.error(`Handler of ${event} event failed:`, error));
   }
 
   /**
-   * Handle keyboard events for the Ctrl+S hotkey
-   * @param {KeyboardEvent} event - The keyboard event
+   * Gets the effective configuration for a store, with plugin options overriding `teraSync` store options
+   * @param {string} storeId - The store id
+   * @returns {TeraStoreConfig} The store configuration
    */
-  private handleKeyDown(event: KeyboardEvent): void {
-    // Check for Ctrl+S (Windows/Linux) or Command+S (Mac)
-    if ((event.ctrlKey || event.metaKey) && event.key === 's') {
-      event.preventDefault(); // Prevent the browser's save dialog
-      debugLog('Ctrl+S hotkey detected, saving state');
-      this.saveAllStores().then(success => {
-        if (success) {
-          debugLog('Save completed via hotkey');
-        }
-      });
+  private getStoreConfig(storeId: string): TeraStoreConfig {
+    const storeOption = this.storeOptions.get(storeId);
+    const baseConfig = typeof storeOption === 'boolean' ? { enabled: storeOption } : storeOption;
+    return { ...baseConfig, ...this.config.stores[storeId] };
+  }
+
+  /**
+   * Checks whether a store's state should be persisted
+   * @param {string} storeId - The store id
+   * @returns {boolean} Whether the store is synced
+   */
+  private isStoreSynced(storeId: string): boolean {
+    if (!this.isStoreIncluded(storeId)) return false;
+
+    // Stores another plugin claimed first are left to it
+    const owner = this.getStoreOwner(storeId);
+    return !owner || owner === this;
+  }
+
+  /**
+   * Checks whether this plugin's configuration persists a store, whichever plugin claimed it
+   * @param {string} storeId - The store id
+   * @returns {boolean} Whether the store is included
+   */
+  private isStoreIncluded(storeId: string): boolean {
+    // Never persist our internal sync status store
+    if (isSyncStatusStoreId(storeId)) return false;
+    if (this.config.include.length && !this.config.include.includes(storeId)) return false;
+    if (this.config.exclude.includes(storeId)) return false;
+    return this.getStoreConfig(storeId).enabled !== false;
+  }
+
+  /**
+   * Gets the plugin which claimed a store
+   * @param {string} storeId - The store id
+   * @returns {TeraFileSyncPlugin|null} The plugin syncing the store, or null if no plugin claimed it
+   */
+  private getStoreOwner(storeId: string): TeraFileSyncPlugin | null {
+    if (!this.pinia) return null;
+    return storeOwners.get(this.pinia)?.get(storeId) ?? null;
+  }
+
+  /**
+   * Claims a newly created store for this plugin if it syncs it, warning if another plugin already claimed it
+   * @param {string} storeId - The store id
+   */
+  private claimStore(storeId: string): void {
+    if (!this.pinia || !this.isStoreIncluded(storeId)) return;
+
+    const owner = this.getStoreOwner(storeId);
+    if (owner && owner !== this) {
+      this.logger.warn(`Store ${storeId} is already synced by the plugin with key prefix "${owner.config.keyPrefix}", exclude it from one of the plugins`);
+      return;
     }
+
+    const owners = storeOwners.get(this.pinia) ?? new Map<string, TeraFileSyncPlugin>();
+    owners.set(storeId, this);
+    storeOwners.set(this.pinia, owners);
+  }
+
+  /**
+   * Checks whether this plugin provides a store's `$teraFileSync` API, being its status store or syncing it
+   * @param {string} storeId - The store id
+   * @returns {boolean} Whether this plugin owns the store
+   */
+  private ownsStore(storeId: string): boolean {
+    return storeId === getSyncStatusStoreId(this.config.keyPrefix) || this.isStoreSynced(storeId);
+  }
+
+  /**
+   * Gets the scope of stores which don't declare one, whose file is merged with collaborators' changes
+   * @returns {StoreScope} The default scope
+   */
+  private getDefaultScope(): StoreScope {
+    return this.config.isSeparateStateForEachUser ? 'user' : 'project';
+  }
+
+  /**
+   * Gets the scopes holding any of a store's state
+   * @param {string} storeId - The store id
+   * @returns {StoreScope[]} The scopes of the store and its scoped paths
+   */
+  private getStoreScopes(storeId: string): StoreScope[] {
+    const storeConfig = this.getStoreConfig(storeId);
+    const scopes = [storeConfig.scope ?? this.getDefaultScope(), ...Object.values(storeConfig.pathScopes ?? {})];
+    return STORE_SCOPES.filter(scope => scopes.includes(scope));
+  }
+
+  /**
+   * Splits collected state into the state saved in each scope
+   * @param {StateTree} state - The state keyed by store id
+   * @returns {Object} The state of each scope holding any state, keyed by store id
+   */
+  private splitByScope(state: StateTree): Partial<Record<StoreScope, StateTree>> {
+    const scopedState: Partial<Record<StoreScope, StateTree>> = {};
+
+    Object.keys(state).forEach(storeId => {
+      const storeConfig = this.getStoreConfig(storeId);
+      const parts = splitStoreState(state[storeId], storeConfig.scope ?? this.getDefaultScope(), storeConfig.pathScopes ?? {});
+      (Object.keys(parts) as StoreScope[]).forEach(scope => {
+        scopedState[scope] = { ...scopedState[scope], [storeId]: parts[scope] };
+      });
+    });
+
+    return scopedState;
+  }
+
+  /**
+   * Collects the encoded state saved in the file of the default scope
+   * @returns {StateTree} The encoded state keyed by store id
+   */
+  private collectDefaultScopeState(): StateTree {
+    const scopedState = this.splitByScope(this.transformForSave(this.collectState() ?? {}));
+    return this.codec.encode(scopedState[this.getDefaultScope()] ?? {});
+  }
+
+  /**
+   * Handles the Ctrl+S hotkey, dispatched to every plugin
+   */
+  private handleSaveHotkey(): void {
+    this.logger.debug('Ctrl+S hotkey detected, saving state');
+    this.saveAllStores().then(success => {
+      if (success) {
+        this.logger.debug('Save completed via hotkey');
+      }
+    });
   }
 
   /**
@@ -316,7 +1658,7 @@ class TeraFileSyncPlugin {
    * @returns {string | undefined} - The message to show in the confirmation dialog, if any.
    */
   private handleBeforeUnload(event: BeforeUnloadEvent): string | undefined {
-    if (this.saveStatus === SAVE_STATUS.UNSAVED) {
+    if (this.saveStatus === SAVE_STATUS.UNSAVED || this.saveStatus === SAVE_STATUS.CONFLICT) {
       const message = 'You have unsaved changes. Are you sure you want to leave?';
       event.returnValue = message; // Standard for most browsers
       return message; // For some older browsers
@@ -325,30 +1667,50 @@ class TeraFileSyncPlugin {
   }
 
   /**
-   * Register the keyboard event listener for hotkeys
+   * Retries a failed save as soon as the browser comes back online
+   */
+  private handleOnline(): void {
+    // Journaled changes waiting to be restored would be discarded by saving
+    if ((!this.hasJournalEntry || this.journaledChanges) && this.retryTimeout === null) return;
+
+    this.logger.debug('Back online, retrying failed save');
+    this.clearRetry();
+    this.saveAllStores();
+  }
+
+  /**
+   * Saves when the window loses focus or the page is hidden
+   */
+  private handleBlur(): void {
+    if (typeof document !== 'undefined' && document.visibilityState === 'visible' && document.hasFocus()) return;
+
+    this.logger.debug('Window blurred or hidden');
+    this.requestAutoSave();
+  }
+
+  /**
+   * Register the save hotkey with the dispatcher shared by every plugin
    */
   private registerHotkeys(): void {
     if (!this.config.enableSaveHotkey) {
-      debugLog('Save hotkey disabled in configuration');
+      this.logger.debug('Save hotkey disabled in configuration');
       return;
     }
 
-    debugLog('Registering Ctrl+S hotkey');
-    if (typeof window !== 'undefined') {
-      // Remove any existing handler to prevent duplicates
-      window.removeEventListener('keydown', this.keydownHandler);
-      // Add the event listener
-      window.addEventListener('keydown', this.keydownHandler);
-    }
+    this.logger.debug('Registering Ctrl+S hotkey');
+    // Remove any existing handler to prevent duplicates
+    this.unregisterSaveHotkey?.();
+    this.unregisterSaveHotkey = registerSaveHotkey(() => this.handleSaveHotkey());
   }
 
   /**
-   * Remove the keyboard event listener
+   * Remove the save hotkey from the shared dispatcher
    */
   private unregisterHotkeys(): void {
-    if (typeof window !== 'undefined') {
-      window.removeEventListener('keydown', this.keydownHandler);
-      debugLog('Unregistered hotkeys');
+    if (this.unregisterSaveHotkey) {
+      this.unregisterSaveHotkey();
+      this.unregisterSaveHotkey = null;
+      this.logger.debug('Unregistered hotkeys');
     }
   }
 
@@ -358,7 +1720,7 @@ class TeraFileSyncPlugin {
   private registerBeforeUnload(): void {
     if (typeof window !== 'undefined') {
       window.addEventListener('beforeunload', this.beforeUnloadHandler);
-      debugLog('Registered beforeunload listener');
+      this.logger.debug('Registered beforeunload listener');
     }
   }
 
@@ -368,7 +1730,79 @@ class TeraFileSyncPlugin {
   private unregisterBeforeUnload(): void {
     if (typeof window !== 'undefined') {
       window.removeEventListener('beforeunload', this.beforeUnloadHandler);
-      debugLog('Unregistered beforeunload listener');
+      this.logger.debug('Unregistered beforeunload listener');
+    }
+  }
+
+  /**
+   * Registers the online event listener used to flush the offline journal.
+   */
+  private registerOnline(): void {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.onlineHandler);
+      this.logger.debug('Registered online listener');
+    }
+  }
+
+  /**
+   * Unregisters the online event listener.
+   */
+  private unregisterOnline(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.onlineHandler);
+      this.logger.debug('Unregistered online listener');
+    }
+  }
+
+  /**
+   * Registers the blur and visibilitychange listeners used to save on leaving the page.
+   */
+  private registerBlur(): void {
+    if (!this.config.saveOnBlur || typeof window === 'undefined') return;
+
+    window.addEventListener('blur', this.blurHandler);
+    document.addEventListener('visibilitychange', this.blurHandler);
+    this.logger.debug('Registered blur listeners');
+  }
+
+  /**
+   * Unregisters the blur and visibilitychange listeners.
+   */
+  private unregisterBlur(): void {
+    if (typeof window === 'undefined') return;
+
+    window.removeEventListener('blur', this.blurHandler);
+    document.removeEventListener('visibilitychange', this.blurHandler);
+    this.logger.debug('Unregistered blur listeners');
+  }
+
+  /**
+   * Creates the notifier used when none is configured, showing notifications with `$notify` when the Vue instance has it
+   * and otherwise with TERA's alert dialog
+   * @returns {Notifier} The default notifier
+   */
+  private createDefaultNotifier(): Notifier {
+    const notifyNotifier = createNotifyNotifier(() => this.vueInstance?.$notify);
+    const teraNotifier = createTeraNotifier(() => this.vueInstance?.$tera);
+
+    return {
+      notify: (notification: Notification): void => {
+        (this.vueInstance?.$notify ? notifyNotifier : teraNotifier).notify(notification);
+      }
+    };
+  }
+
+  /**
+   * Shows a notification to the user, logging it too in case no notifier can show it
+   * @param {Notification} notification - The notification to show
+   */
+  private notify(notification: Notification): void {
+    this.logger.info(`Notifying user: ${notification.message}`);
+
+    try {
+      this.notifier.notify(notification);
+    } catch (error) {
+      this.logger.error('Failed to show notification:', error);
     }
   }
 
@@ -378,25 +1812,13 @@ class TeraFileSyncPlugin {
   private showInitialAlert(): void {
     if (this.config.showInitialAlert && !this.hasShownInitialAlert) {
       this.hasShownInitialAlert = true;
-      const message = "This tool no longer automatically saves progress, please use Ctrl+S to save progress";
-
-      // Use Vue notification system if available
-      if (this.vueInstance && this.vueInstance.$notify) {
-        this.vueInstance.$notify({
-          title: 'Important',
-          message,
-          type: 'warning',
-          duration: 10000,
-          showClose: true
-        });
-      } else {
-        // Fallback to regular alert with a short delay to ensure it shows after UI loads
-        setTimeout(() => {
-          showNotification(message);
-        }, 1000);
-      }
+      const message = this.config.autoSaveStrategy === 'debounce'
+        ? "This tool automatically saves progress shortly after each change, you can also use Ctrl+S to save progress"
+        : "This tool no longer automatically saves progress, please use Ctrl+S to save progress";
+
+      this.notify({ title: 'Important', message, type: 'warning' });
 
-      debugLog('Showed initial manual save alert');
+      this.logger.debug('Showed initial manual save alert');
     }
   }
 
@@ -407,373 +1829,2508 @@ class TeraFileSyncPlugin {
   private updateSaveStatus(status: SAVE_STATUS): void {
     if (!this.syncStatusStore) return;
 
-    debugLog(`Updating save status: ${status}`);
+    this.logger.debug(`Updating save status: ${status}`);
     this.saveStatus = status;
 
     // Update the status in the Pinia store
-    (this.syncStatusStore as any).updateSaveStatus(status);
+    this.syncStatusStore.updateSaveStatus(status);
   }
 
   /**
-   * Gets the storage key for the current user
-   * @async
-   * @returns {Promise<string>} The storage key
-   * @throws {Error} If unable to get user ID when separate state is enabled
+   * Updates the undo/redo availability in the store
    */
-  private async getStorageKey(): Promise<string> {
-    if (this.config.isSeparateStateForEachUser) {
-      if (!this.userId && this.vueInstance) {
-        try {
-          const user = await this.vueInstance.$tera.getUser();
-          this.userId = user.id;
-          debugLog('User ID initialized:', this.userId);
-        } catch (error) {
-          logError(error as Error, 'Failed to get user ID');
-          throw error;
-        }
-      }
-      return `${this.config.keyPrefix}-${this.userId}`;
-    }
-    return `${this.config.keyPrefix}`;
+  private updateHistoryStatus(): void {
+    if (!this.syncStatusStore) return;
+
+    this.syncStatusStore.updateHistoryStatus(this.undoStack.length > 0, this.redoStack.length > 0);
   }
 
   /**
-   * Gets the storage file name for the current user
-   * @async
-   * @returns {Promise<string>} The storage file name
-   * @throws {Error} If unable to get user ID when separate state is enabled
+   * Updates the load error in the store
    */
-  private async getStorageFileName(): Promise<string> {
-    if (!this.vueInstance || !this.vueInstance.$tera || !this.vueInstance.$tera.project) {
-      console.warn("Error getting fileStorageName: vueInstance, $tera or $tera.project missing:", this.vueInstance?.$tera);
-      throw new Error("Missing vueInstance.$tera.project");
-    }
+  private updateLoadError(): void {
+    if (!this.syncStatusStore) return;
 
-    if (!this.vueInstance.$tera.project.temp) {
-      console.warn("Error getting fileStorageName: $tera.project.temp missing:", this.vueInstance.$tera.project);
-      console.warn("Creating $tera.project.temp...");
-      // Create temp object if it doesn't exist
-      this.vueInstance.$tera.project.temp = {};
-    }
+    const info = this.loadError ? { reason: this.loadError.reason, message: this.loadError.message } : null;
+    this.syncStatusStore.updateLoadError(info);
+  }
 
-    if (!this.vueInstance.$tera.project.id) {
-      console.warn("Error getting fileStorageName: $tera.project.id missing:", this.vueInstance.$tera.project);
-      throw new Error("Missing vueInstance.$tera.project.id");
+  /**
+   * Updates the validation problems of a store in the store
+   * @param {string} storeId - The validated store id
+   * @param {ValidationIssue[]|null} issues - The problems found, or null if the state was valid
+   */
+  private updateValidationIssues(storeId: string, issues: ValidationIssue[] | null): void {
+    if (issues) {
+      this.invalidStores.set(storeId, issues);
+    } else {
+      this.invalidStores.delete(storeId);
     }
 
-    const key = await this.getStorageKey();
-    let fileStorageName = this.vueInstance.$tera.project.temp[key];
+    if (!this.syncStatusStore) return;
 
-    if (!fileStorageName) {
-      debugLog("No existing file for project/tool, creating one");
-      fileStorageName = `data-${this.config.keyPrefix}-${nanoid()}.json`;
+    this.syncStatusStore.updateValidationIssues(storeId, issues);
+  }
 
-      if (typeof this.vueInstance.$tera.createProjectFile === 'function') {
-        await this.vueInstance.$tera.createProjectFile(fileStorageName);
-      } else {
-        throw new Error("createProjectFile function not available");
-      }
+  /**
+   * Records changes saved by a collaborator which haven't been applied, updating the store
+   * @param {SaveEnvelope|null} envelope - The saved changes, or null once they are applied or saved over
+   */
+  private updateRemoteChanges(envelope: SaveEnvelope | null): void {
+    this.remoteChanges = envelope;
 
-      if (typeof this.vueInstance.$tera.setProjectState === 'function') {
-        await this.vueInstance.$tera.setProjectState(`temp.${key}`, fileStorageName);
-      } else {
-        throw new Error("setProjectState function not available");
+    if (!this.syncStatusStore) return;
+
+    this.syncStatusStore.updateRemoteChanges(envelope !== null);
+  }
+
+  /**
+   * Records changes from a failed save which can be restored, updating the store
+   * @param {JournalEntry|null} entry - The journal entry, or null once it is restored or discarded
+   */
+  private updateJournaledChanges(entry: JournalEntry | null): void {
+    this.journaledChanges = entry;
+
+    if (!this.syncStatusStore) return;
+
+    this.syncStatusStore.updateJournaledChanges(entry !== null);
+  }
+
+  /**
+   * Updates the size metrics in the store
+   * @param {SizeMetrics|null} lastSaveSize - Size of the data written by the last save, null if nothing was saved yet
+   */
+  private updateSizeMetrics(lastSaveSize: SizeMetrics | null): void {
+    if (!this.syncStatusStore) return;
+
+    const state = this.baseSnapshot?.state ?? {};
+    const storeSizes = Object.keys(state).reduce((sizes, storeId) => {
+      sizes[storeId] = getByteLength(state[storeId]);
+      return sizes;
+    }, {} as Record<string, number>);
+
+    this.syncStatusStore.updateSizeMetrics(lastSaveSize, storeSizes);
+  }
+
+  /**
+   * Records an undo step for a local mutation, grouping mutations made in quick succession
+   */
+  private recordHistory(): void {
+    if (!this.config.enableHistory || !this.historySnapshot || typeof window === 'undefined') return;
+
+    // The first mutation of a group pushes the state from before the group
+    if (this.historyGroupTimeout === null) {
+      this.undoStack.push(this.historySnapshot);
+      if (this.undoStack.length > this.config.historyLimit) this.undoStack.shift();
+      this.redoStack = [];
+      this.updateHistoryStatus();
+    } else {
+      window.clearTimeout(this.historyGroupTimeout);
+    }
+
+    this.historyGroupTimeout = window.setTimeout(() => this.flushHistoryGroup(), this.config.historyGroupWindowMs);
+  }
+
+  /**
+   * Ends the current mutation group, taking its resulting state as the latest snapshot
+   */
+  private flushHistoryGroup(): void {
+    if (this.historyGroupTimeout !== null) {
+      window.clearTimeout(this.historyGroupTimeout);
+      this.historyGroupTimeout = null;
+    }
+    this.refreshHistorySnapshot();
+  }
+
+  /**
+   * Takes the current state of all synced stores as the latest history snapshot
+   */
+  private refreshHistorySnapshot(): void {
+    if (!this.config.enableHistory) return;
+
+    // Encode so later mutations can't reach into the snapshot by reference
+    const state = this.collectState();
+    this.historySnapshot = state ? this.codec.encode(state) : null;
+  }
+
+  /**
+   * Moves one step through the history, applying the snapshot reached
+   * @async
+   * @param {StateTree[]} from - The stack to take the snapshot from
+   * @param {StateTree[]} to - The stack to push the current snapshot onto
+   * @returns {Promise<boolean>} Whether there was a step to apply
+   */
+  private async stepHistory(from: StateTree[], to: StateTree[]): Promise<boolean> {
+    this.flushHistoryGroup();
+
+    if (!from.length || !this.historySnapshot) return false;
+
+    const snapshot = from.pop() as StateTree;
+    to.push(this.historySnapshot);
+    // Merging would keep keys added after the snapshot
+    await this.initializeStores(this.createEnvelope(snapshot), true);
+
+    // Moving through history is a local change which needs saving
+    this.markLocalChange();
+    this.updateHistoryStatus();
+    return true;
+  }
+
+  /**
+   * Flags stores as changed locally so the change is saved
+   * @param {string} [storeId] - The changed store, omitted when any store may have changed
+   * @param {boolean} [fromOtherTab=false] - Whether the change was made in another tab, so needn't be sent to the others
+   */
+  private markLocalChange(storeId?: string, fromOtherTab = false): void {
+    const storeIds = storeId ? [storeId] : Array.from(this.trackedStores.keys());
+    storeIds.forEach(id => this.dirtyStores.add(id));
+    if (!fromOtherTab) this.queueTabBroadcast(storeIds);
+
+    this.dirtyGeneration++;
+    if (this.saveStatus !== SAVE_STATUS.SAVING) {
+      this.updateSaveStatus(SAVE_STATUS.UNSAVED);
+    }
+    this.events.emit('dirty', { storeIds });
+    this.scheduleDebouncedSave();
+  }
+
+  /**
+   * Restores the state from before the last group of mutations
+   * @async
+   * @returns {Promise<boolean>} Whether there was anything to undo
+   */
+  private undo(): Promise<boolean> {
+    return this.stepHistory(this.undoStack, this.redoStack);
+  }
+
+  /**
+   * Re-applies the last undone group of mutations
+   * @async
+   * @returns {Promise<boolean>} Whether there was anything to redo
+   */
+  private redo(): Promise<boolean> {
+    return this.stepHistory(this.redoStack, this.undoStack);
+  }
+
+  /**
+   * Restores undo history saved in a loaded envelope, if it was saved with the current store schemas
+   * @param {SaveEnvelope} envelope - The loaded envelope
+   */
+  private restoreHistory(envelope: SaveEnvelope): void {
+    if (!this.config.enableHistory || !envelope.history) return;
+
+    const currentVersions = this.getSchemaVersions(envelope.state);
+    const isCurrentSchema = Object.keys(envelope.schemaVersions)
+      .every(storeId => envelope.schemaVersions[storeId] === currentVersions[storeId]);
+    if (!isCurrentSchema) {
+      this.logger.debug('Discarding saved history from older store schemas');
+      return;
+    }
+
+    this.undoStack = envelope.history.slice(-this.config.historyLimit);
+    this.redoStack = [];
+    this.updateHistoryStatus();
+    this.logger.debug(`Restored ${this.undoStack.length} undo steps`);
+  }
+
+  /**
+   * Gets the storage key of a scope
+   * @async
+   * @param {StoreScope} [scope] - The scope (defaults to the scope of stores which don't declare one)
+   * @param {string} [saveSlot] - The save slot (defaults to the current slot)
+   * @returns {Promise<string>} The storage key
+   * @throws {Error} If unable to get user ID for the user scope
+   */
+  private async getStorageKey(scope: StoreScope = this.getDefaultScope(), saveSlot: string = this.saveSlot): Promise<string> {
+    const prefix = saveSlot === DEFAULT_SAVE_SLOT ? this.config.keyPrefix : `${this.config.keyPrefix}-slot-${saveSlot}`;
+    if (scope === 'session') return `${prefix}-session`;
+
+    if (scope === 'user') {
+      if (!this.userId) {
+        try {
+          if (typeof this.storage.getUserId !== 'function') {
+            throw new Error('Storage adapter cannot provide a user id');
+          }
+          this.userId = await this.storage.getUserId();
+          this.logger.debug('User ID initialized:', this.userId);
+        } catch (error) {
+          this.logger.error('Failed to get user ID:', error);
+          throw error;
+        }
       }
+      return `${prefix}-${this.userId}`;
     }
+    return prefix;
+  }
 
-    if (typeof fileStorageName !== 'string') {
-      throw new Error(`fileStorageName is not a string: ${fileStorageName}`);
+  /**
+   * Gets the storage file name of a scope, creating the file if needed
+   * @async
+   * @param {StoreScope} [scope] - The scope (defaults to the scope of stores which don't declare one)
+   * @returns {Promise<string>} The storage file name
+   * @throws {Error} If unable to get user ID for the user scope
+   */
+  private async getStorageFileName(scope: StoreScope = this.getDefaultScope()): Promise<string> {
+    const key = await this.getStorageKey(scope);
+    return this.getScopeStorage(scope).resolveKey(key);
+  }
+
+  /**
+   * Gets the storage backend of a scope
+   * @param {StoreScope} scope - The scope
+   * @returns {StorageAdapter} The storage backend
+   */
+  private getScopeStorage(scope: StoreScope): StorageAdapter {
+    return scope === 'session' ? this.sessionStorage : this.storage;
+  }
+
+  /**
+   * Shows or hides the TERA loading progress, if available
+   * @async
+   * @param {any} options - uiProgress options, or false to hide
+   */
+  private async showProgress(options: any): Promise<void> {
+    if (!this.vueInstance || !this.vueInstance.$tera) return;
+
+    if (typeof this.vueInstance.$tera.uiProgress !== 'function') {
+      this.logger.warn('Not showing loading because uiProgress is not a function');
+      return;
     }
 
-    const fullFileStoragePath = `${this.vueInstance.$tera.project.id}/${fileStorageName}`;
-    return fullFileStoragePath;
+    await this.vueInstance.$tera.uiProgress(options);
   }
 
   /**
-   * Loads state from JSON file
+   * Loads state from the JSON file of a scope
    * @async
-   * @returns {Promise<StateTree|null>} The loaded state or null if file not found
+   * @param {StoreScope} [scope] - The scope (defaults to the scope of stores which don't declare one)
+   * @returns {Promise<SaveEnvelope|null>} The loaded save envelope or null if file not found
+   * @throws {LoadError} If the file exists, or may exist, but could not be loaded
    */
-  private async loadStateFromFile(): Promise<StateTree | null> {
+  private async loadStateFromFile(scope: StoreScope = this.getDefaultScope()): Promise<SaveEnvelope | null> {
     try {
-      const fileName = await this.getStorageFileName();
-      debugLog(`Loading state from file: ${fileName}`);
+      const fileName = await this.getStorageFileName(scope);
+      this.logger.info(`Loading state from file: ${fileName}`);
 
       if (!fileName) {
-        console.warn('No file name returned when expected!');
+        this.logger.warn('No file name returned when expected!');
         return null;
       }
 
-      const encodedFileName = btoa(fileName);
-
-      if (!this.vueInstance) throw new Error("Vue instance is null");
-
-      const fileContent = await this.vueInstance.$tera.getProjectFileContents(encodedFileName, { format: 'json' });
-      if (!fileContent) {
-        debugLog('File not found or empty');
+      this.events.emit('beforeLoad', { fileName });
+      // Only the default scope's file can be sharded or saved in deltas
+      const envelope = scope === this.getDefaultScope()
+        ? await this.readSavedState(fileName)
+        : await this.readEnvelope(fileName, this.getScopeStorage(scope));
+      if (!envelope) {
+        this.logger.debug('File not found or empty');
         return null;
       }
 
       // Update last saved state for change tracking
-      this.updateSaveStatus(SAVE_STATUS.SAVED);
+      if (scope === this.getDefaultScope()) this.updateSaveStatus(SAVE_STATUS.SAVED);
 
-      debugLog('State loaded from file successfully:', fileContent);
-      return fileContent;
+      this.logger.debug('State loaded from file successfully:', envelope);
+      return envelope;
     } catch (error) {
-      if ((error as Error).message && (error as Error).message.includes('not found')) {
-        debugLog('State file not found, will be created on first save');
+      if (!(error instanceof LoadError) && (error as Error).message && (error as Error).message.includes('not found')) {
+        this.logger.debug('State file not found, will be created on first save');
         return null;
       }
-      logError(error as Error, 'Failed to load state from file');
-      return null;
+      this.logger.error('Failed to load state from file:', error);
+
+      // Falling back to defaults would let the next save overwrite data we merely can't read
+      if (error instanceof LoadError) throw error;
+      if (error instanceof DecryptionError) {
+        throw new LoadError('decryption', error.message, error);
+      }
+      throw new LoadError('storage', `Saved data could not be read: ${(error as Error).message}`, error);
+    }
+  }
+
+  /**
+   * Reads the saved state, loading the store files of a sharded layout and replaying delta saves
+   * @async
+   * @param {string} fileName - The storage file name
+   * @returns {Promise<SaveEnvelope|null>} The saved envelope or null if there is no content
+   * @throws {LoadError} If the content cannot be parsed or delta saves cannot be applied
+   * @throws {DecryptionError} If the content is encrypted and cannot be decrypted
+   */
+  private async readSavedState(fileName: string): Promise<SaveEnvelope | null> {
+    const envelope = await this.readEnvelope(fileName);
+    if (!envelope) return null;
+
+    // A sharded layout manifest lists the store files to load
+    if (envelope.shards) {
+      this.manifest = envelope;
+      return this.loadShards(envelope, this.config.lazyLoadShards);
+    }
+
+    if (!envelope.patchLog) return envelope;
+
+    // Delta saves made since the full save are replayed on top of it
+    const patchLog = await this.readPatchLog(envelope);
+    try {
+      return patchLog ? applyPatchLog(envelope, patchLog) : envelope;
+    } catch (error) {
+      throw new LoadError('corrupt', `Saved changes could not be applied: ${(error as Error).message}`, error);
+    }
+  }
+
+  /**
+   * Reads an envelope from storage, upgrading older formats
+   * @async
+   * @param {string} fileName - The storage file name
+   * @param {StorageAdapter} [storage] - The storage backend (defaults to the main storage)
+   * @returns {Promise<SaveEnvelope|null>} The envelope or null if there is no content
+   * @throws {LoadError} If the content cannot be parsed
+   * @throws {DecryptionError} If the content is encrypted and cannot be decrypted
+   */
+  private async readEnvelope(fileName: string, storage: StorageAdapter = this.storage): Promise<SaveEnvelope | null> {
+    const storedContent = await storage.read(fileName);
+
+    try {
+      const content = await this.unpackContent(storedContent);
+      return content ? this.upgradeEnvelope(normalizeEnvelope(content, this.logger)) : null;
+    } catch (error) {
+      if (error instanceof DecryptionError) throw error;
+      throw new LoadError('corrupt', `Saved data in ${fileName} is corrupt: ${(error as Error).message}`, error);
+    }
+  }
+
+  /**
+   * Moves fields of stored content into a compressed and/or encrypted payload, as configured
+   * @async
+   * @param {Record<string, any>} content - The content to store
+   * @param {string[]} fields - The fields holding state
+   * @param {CompressionFormat|'none'} [compression] - The compression format (defaults to the configured one)
+   * @param {Encryptor|null} [encryptor] - The encryptor (defaults to the configured one)
+   * @returns {Promise<any>} The content with those fields packed into its payload
+   */
+  private async packContent<T extends object>(
+    content: T,
+    fields: (keyof T)[],
+    compression: CompressionFormat | 'none' = this.config.compression,
+    encryptor: Encryptor | null = this.encryptor
+  ): Promise<T> {
+    if (compression === 'none' && !encryptor) return content;
+
+    // Metadata stays readable, only the fields holding state are packed
+    const packed: Record<string, any> = { ...content };
+    const packedFields: Record<string, any> = {};
+    fields.forEach(field => {
+      packedFields[field as string] = content[field];
+      delete packed[field as string];
+    });
+
+    let data = new TextEncoder().encode(JSON.stringify(packedFields));
+    if (compression !== 'none') {
+      data = await compress(data, compression);
+      packed.compression = compression;
+    }
+    if (encryptor) {
+      const [header, encrypted] = await encryptor.encrypt(data);
+      data = encrypted;
+      packed.encryption = header;
+    }
+
+    packed.payload = toBase64(data);
+    return packed as T;
+  }
+
+  /**
+   * Restores the fields of stored content packed by packContent
+   * @async
+   * @param {any} content - The stored content
+   * @returns {Promise<any>} The content with its payload unpacked
+   * @throws {DecryptionError} If the payload is encrypted and cannot be decrypted
+   */
+  private async unpackContent(content: any): Promise<any> {
+    if (!content || typeof content !== 'object' || typeof content.payload !== 'string') return content;
+
+    const { compression, encryption, payload, ...unpacked } = content;
+    let data = fromBase64(payload);
+    if (encryption) {
+      if (!this.encryptor) {
+        throw new DecryptionError(encryption.keyId, 'Saved data is encrypted but no encryption is configured');
+      }
+      data = await this.encryptor.decrypt(encryption, data);
+    }
+    if (compression) {
+      data = await decompress(data, compression);
+    }
+
+    return { ...unpacked, ...JSON.parse(new TextDecoder().decode(data)) };
+  }
+
+  /**
+   * Writes content to storage, compressing and encrypting its state fields if configured
+   * @async
+   * @param {string} fileName - The storage file name
+   * @param {Object} content - The envelope or patch log to write
+   * @param {string[]} fields - The fields holding state
+   * @param {StorageAdapter} [storage] - The storage backend (defaults to the main storage)
+   * @returns {Promise<SizeMetrics>} The size of the content before and after packing
+   * @throws {PayloadTooLargeError} If the written content would exceed the maximum payload size
+   */
+  private async writeContent<T extends object>(
+    fileName: string,
+    content: T,
+    fields: (keyof T)[],
+    storage: StorageAdapter = this.storage
+  ): Promise<SizeMetrics> {
+    const rawBytes = getByteLength(content);
+    const packed = await this.packContent(content, fields);
+
+    const storedBytes = packed === content ? rawBytes : getByteLength(packed);
+    this.checkPayloadSize(storedBytes);
+
+    await storage.write(fileName, packed);
+    return { rawBytes, storedBytes };
+  }
+
+  /**
+   * Writes an envelope to storage, compressing and encrypting its state and history if configured
+   * @async
+   * @param {string} fileName - The storage file name
+   * @param {SaveEnvelope} envelope - The envelope to write
+   * @param {StorageAdapter} [storage] - The storage backend (defaults to the main storage)
+   * @returns {Promise<SizeMetrics>} The size of the envelope before and after packing
+   * @throws {PayloadTooLargeError} If the written envelope would exceed the maximum payload size
+   */
+  private writeEnvelope(fileName: string, envelope: SaveEnvelope, storage: StorageAdapter = this.storage): Promise<SizeMetrics> {
+    return this.writeContent(fileName, envelope, ['state', 'history'], storage);
+  }
+
+  /**
+   * Checks the size of a write against the maximum payload size
+   * @param {number} size - Size in bytes of the data to write
+   * @throws {PayloadTooLargeError} If the size exceeds the maximum payload size
+   */
+  private checkPayloadSize(size: number): void {
+    if (this.config.maxPayloadBytes > 0 && size > this.config.maxPayloadBytes) {
+      throw new PayloadTooLargeError(size, this.config.maxPayloadBytes);
+    }
+  }
+
+  /**
+   * Re-encodes the state of envelopes written before the codec with the codec
+   * @param {SaveEnvelope} envelope - The loaded envelope
+   * @returns {SaveEnvelope} The envelope with codec-encoded state
+   */
+  private upgradeEnvelope(envelope: SaveEnvelope): SaveEnvelope {
+    if (envelope.formatVersion >= CODEC_FORMAT_VERSION) return envelope;
+
+    this.logger.debug(`Upgrading save format ${envelope.formatVersion} to ${SAVE_FORMAT_VERSION}`);
+    const state: StateTree = {};
+    Object.entries(envelope.state).forEach(([storeId, storeState]) => {
+      state[storeId] = this.codec.encode(objectToMapSet(storeState, this.logger));
+    });
+
+    return { ...envelope, formatVersion: SAVE_FORMAT_VERSION, state };
+  }
+
+  /**
+   * Gets the current schema version of each store in a state tree
+   * @param {StateTree} state - The state tree keyed by store id
+   * @returns {Record<string, number>} Schema versions keyed by store id
+   */
+  private getSchemaVersions(state: StateTree): Record<string, number> {
+    return Object.keys(state).reduce((versions, storeId) => {
+      versions[storeId] = getStoreSchemaVersion(this.getStoreConfig(storeId));
+      return versions;
+    }, {} as Record<string, number>);
+  }
+
+  /**
+   * Wraps serialized state in a save envelope
+   * @param {StateTree} state - The serialized state keyed by store id
+   * @returns {SaveEnvelope} The save envelope
+   */
+  private createEnvelope(state: StateTree): SaveEnvelope {
+    const envelope: SaveEnvelope = {
+      formatVersion: SAVE_FORMAT_VERSION,
+      pluginVersion: PLUGIN_VERSION,
+      savedAt: new Date().toISOString(),
+      schemaVersions: this.getSchemaVersions(state),
+      state
+    };
+
+    if (this.config.enableHistory && this.config.persistHistoryLimit > 0) {
+      envelope.history = this.undoStack.slice(-this.config.persistHistoryLimit);
+    }
+
+    return envelope;
+  }
+
+  /**
+   * Keeps a failed save in the local journal so it survives the tab closing
+   * @async
+   * @param {string} fileName - The storage file name the save was destined for
+   * @param {SaveEnvelope} envelope - The envelope which failed to save
+   */
+  private async recordFailedSave(fileName: string, envelope: SaveEnvelope): Promise<void> {
+    if (!this.config.enableOfflineJournal) return;
+
+    try {
+      const entry: JournalEntry = { fileName, failedAt: new Date().toISOString(), envelope: await this.packContent(envelope, ['state', 'history']) };
+      await this.journalStorage.write(await this.journalStorage.resolveKey(fileName), entry);
+      this.hasJournalEntry = true;
+      this.logger.debug('Recorded failed save in offline journal');
+    } catch (error) {
+      this.logger.error('Failed to record save in offline journal:', error);
+    }
+  }
+
+  /**
+   * Removes the journal entry for a file once its state has been saved or discarded
+   * @async
+   * @param {string} fileName - The storage file name
+   */
+  private async clearJournal(fileName: string): Promise<void> {
+    if (!this.hasJournalEntry) return;
+
+    try {
+      await this.journalStorage.write(await this.journalStorage.resolveKey(fileName), null);
+      this.hasJournalEntry = false;
+      if (this.journaledChanges) this.updateJournaledChanges(null);
+      this.logger.debug('Cleared offline journal');
+    } catch (error) {
+      this.logger.error('Failed to clear offline journal:', error);
+    }
+  }
+
+  /**
+   * Schedules another save attempt with exponential backoff
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimeout !== null || typeof window === 'undefined') return;
+
+    const delaySeconds = Math.min(
+      this.config.retryBaseDelaySeconds * 2 ** this.retryAttempt,
+      this.config.retryMaxDelaySeconds
+    );
+    this.retryAttempt++;
+    this.logger.debug(`Retrying failed save in ${delaySeconds} seconds (attempt ${this.retryAttempt})`);
+
+    this.retryTimeout = window.setTimeout(() => {
+      this.retryTimeout = null;
+      this.saveAllStores();
+    }, delaySeconds * 1000);
+  }
+
+  /**
+   * Cancels any scheduled save retry
+   */
+  private clearRetry(): void {
+    if (this.retryTimeout !== null) {
+      window.clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+  }
+
+  /**
+   * Offers to restore a journaled save which is newer than the loaded file, discarding older ones
+   * @async
+   * @param {SaveEnvelope|null} loadedEnvelope - The envelope loaded from storage, if any
+   */
+  private async checkJournal(loadedEnvelope: SaveEnvelope | null): Promise<void> {
+    if (!this.config.enableOfflineJournal) return;
+
+    try {
+      const fileName = await this.getStorageFileName();
+      const entry: JournalEntry | null = await this.journalStorage.read(await this.journalStorage.resolveKey(fileName));
+      if (!entry || !entry.envelope) return;
+      this.hasJournalEntry = true;
+
+      const isNewer = !loadedEnvelope || !loadedEnvelope.savedAt || entry.envelope.savedAt > loadedEnvelope.savedAt;
+      if (!isNewer) {
+        this.logger.debug('Discarding offline journal older than the saved file');
+        await this.clearJournal(fileName);
+        return;
+      }
+
+      this.updateJournaledChanges(entry);
+      const failedAt = new Date(entry.failedAt).toLocaleString();
+      this.notify({
+        title: 'Unsaved changes found',
+        message: `Changes from ${failedAt} were not saved. Restore them to continue where you left off, or they are discarded when you next save.`,
+        type: 'warning'
+      });
+    } catch (error) {
+      this.logger.error('Failed to read offline journal:', error);
+    }
+  }
+
+  /**
+   * Applies the changes of a journaled save to the stores as an unsaved, undoable change, then retries saving them
+   * @async
+   * @returns {Promise<boolean>} Whether there were journaled changes to restore
+   */
+  private async restoreJournaledChanges(): Promise<boolean> {
+    const entry = this.journaledChanges;
+    if (!entry || !this.initialized) return false;
+
+    this.flushHistoryGroup();
+    this.recordHistory();
+    await this.initializeStores(this.upgradeEnvelope(await this.unpackContent(entry.envelope)));
+    this.updateJournaledChanges(null);
+    this.markLocalChange();
+    this.scheduleRetry();
+    this.logger.debug('Restored stores from offline journal');
+    return true;
+  }
+
+  /**
+   * Discards the changes of a journaled save
+   * @async
+   */
+  private async discardJournaledChanges(): Promise<void> {
+    if (!this.journaledChanges) return;
+
+    this.logger.debug('Discarding offline journal');
+    await this.clearJournal(await this.getStorageFileName());
+    this.updateJournaledChanges(null);
+  }
+
+  /**
+   * Gets the storage file name of the revision index or a revision slot
+   * @async
+   * @param {number} [slot] - The revision slot, omitted for the index
+   * @returns {Promise<string>} The storage file name
+   */
+  private async getRevisionFileName(slot?: number): Promise<string> {
+    return this.storage.resolveKey(await this.getRevisionKey(slot));
+  }
+
+  /**
+   * Gets the storage key of the revision index or a revision slot
+   * @async
+   * @param {number} [slot] - The revision slot, omitted for the index
+   * @returns {Promise<string>} The storage key
+   */
+  private async getRevisionKey(slot?: number): Promise<string> {
+    const key = await this.getStorageKey();
+    return slot === undefined ? `${key}-revisions` : `${key}-revision-${slot}`;
+  }
+
+  /**
+   * Looks up the storage location of a key without creating it, so reads don't add files to the project
+   * @async
+   * @param {string} key - The storage key
+   * @returns {Promise<string|null>} The storage location, or null if nothing was written under the key
+   */
+  private async findStorageLocation(key: string): Promise<string | null> {
+    return this.storage.findKey ? this.storage.findKey(key) : this.storage.resolveKey(key);
+  }
+
+  /**
+   * Reads the revision index, dropping revisions past the retention policy
+   * @async
+   * @returns {Promise<RevisionIndex>} The revision index
+   */
+  private async readRevisionIndex(): Promise<RevisionIndex> {
+    const fileName = await this.findStorageLocation(await this.getRevisionKey());
+    const index: RevisionIndex | null = fileName ? await this.storage.read(fileName) : null;
+    const revisions = index?.revisions ?? [];
+    const minSavedAt = this.config.revisionMaxAgeDays > 0
+      ? new Date(Date.now() - this.config.revisionMaxAgeDays * 24 * 60 * 60 * 1000).toISOString()
+      : '';
+
+    return {
+      revisions: revisions
+        .filter(revision => revision.slot < this.config.revisionCount && revision.savedAt >= minSavedAt)
+        .slice(0, this.config.revisionCount)
+    };
+  }
+
+  /**
+   * Stores an overwritten envelope in the next rotating revision slot
+   * @async
+   * @param {SaveEnvelope} envelope - The envelope which was overwritten
+   */
+  private async archiveRevision(envelope: SaveEnvelope): Promise<void> {
+    if (this.config.revisionCount <= 0) return;
+
+    try {
+      const index = await this.readRevisionIndex();
+
+      // Reuse a free slot, or the slot of the oldest revision once all are taken
+      const usedSlots = index.revisions.map(revision => revision.slot);
+      let slot = Array.from({ length: this.config.revisionCount }, (_, i) => i).find(i => !usedSlots.includes(i));
+      if (slot === undefined) {
+        slot = (index.revisions.pop() as RevisionInfo & { slot: number }).slot;
+      }
+
+      await this.writeEnvelope(await this.getRevisionFileName(slot), envelope);
+      index.revisions.unshift({ id: nanoid(), savedAt: envelope.savedAt || new Date().toISOString(), slot });
+      await this.storage.write(await this.getRevisionFileName(), index);
+      this.logger.debug(`Archived revision in slot ${slot}`);
+    } catch (error) {
+      // A failed archive shouldn't fail the save itself
+      this.logger.error('Failed to archive revision:', error);
+    }
+  }
+
+  /**
+   * Lists the restorable revisions
+   * @async
+   * @returns {Promise<RevisionInfo[]>} The revisions, newest first
+   */
+  private async listRevisions(): Promise<RevisionInfo[]> {
+    if (this.config.revisionCount <= 0) return [];
+
+    const index = await this.readRevisionIndex();
+    return index.revisions.map(({ id, savedAt }) => ({ id, savedAt }));
+  }
+
+  /**
+   * Reads the envelope of a revision
+   * @async
+   * @param {string} id - The revision id
+   * @returns {Promise<SaveEnvelope>} The revision envelope
+   * @throws {Error} If the revision does not exist
+   */
+  private async readRevision(id: string): Promise<SaveEnvelope> {
+    const index = await this.readRevisionIndex();
+    const revision = index.revisions.find(candidate => candidate.id === id);
+    if (!revision) {
+      throw new Error(`Revision ${id} not found`);
+    }
+
+    const fileName = await this.findStorageLocation(await this.getRevisionKey(revision.slot));
+    const envelope = fileName ? await this.readEnvelope(fileName) : null;
+    if (!envelope) {
+      throw new Error(`Revision ${id} is empty`);
+    }
+    return envelope;
+  }
+
+  /**
+   * Gets the state of each store in a revision without applying it
+   * @async
+   * @param {string} id - The revision id
+   * @returns {Promise<StateTree>} The decoded and migrated state keyed by store id
+   * @throws {Error} If the revision does not exist
+   */
+  private async previewRevision(id: string): Promise<StateTree> {
+    const envelope = await this.readRevision(id);
+    const state: StateTree = {};
+
+    Object.entries(envelope.state).forEach(([storeId, storeState]) => {
+      state[storeId] = migrateStoreState(
+        storeId,
+        this.codec.decode(storeState),
+        envelope.schemaVersions[storeId] ?? 1,
+        this.getStoreConfig(storeId),
+        this.logger
+      );
+    });
+
+    return state;
+  }
+
+  /**
+   * Applies a revision to the stores as an unsaved, undoable change
+   * @async
+   * @param {string} id - The revision id
+   * @throws {Error} If the revision does not exist
+   */
+  private async restoreRevision(id: string): Promise<void> {
+    const envelope = await this.readRevision(id);
+
+    this.flushHistoryGroup();
+    this.recordHistory();
+    // Merging would keep keys added since the revision was saved
+    await this.initializeStores(envelope, true);
+    this.markLocalChange();
+    this.logger.debug(`Restored revision ${id}`);
+  }
+
+  /**
+   * Switches saves to another encryption key and re-saves every store with it
+   * @async
+   * @param {string} keyId - Id of the new key
+   * @returns {Promise<boolean>} Whether the re-save was successful
+   * @throws {Error} If encryption is not configured
+   */
+  private async rotateEncryptionKey(keyId: string): Promise<boolean> {
+    if (!this.encryptor) {
+      throw new Error('Encryption is not configured');
+    }
+
+    // Revisions and patches saved under the old key stay readable as long as it can still be provided
+    this.encryptor.rotateKey(keyId);
+    this.forceFullSave = true;
+    this.markLocalChange();
+    this.logger.debug(`Rotated encryption key to ${keyId}`);
+    return this.saveAllStores();
+  }
+
+  /**
+   * Three-way merges any changes a collaborator saved since we last loaded or saved
+   * @async
+   * @param {SaveEnvelope|null} remoteEnvelope - The envelope currently in the file, re-read before writing
+   * @param {StateTree} localState - The serialized local state
+   * @param {StateTree} [baseState] - The serialized state when last loaded or saved
+   * @returns {Promise<StateTree>} The serialized state to write
+   * @throws {Error} If a conflict cannot be resolved
+   */
+  private async mergeRemoteChanges(
+    remoteEnvelope: SaveEnvelope | null,
+    localState: StateTree,
+    baseState: StateTree = this.baseSnapshot?.state ?? {}
+  ): Promise<StateTree> {
+    if (!remoteEnvelope) return localState;
+
+    const remoteState = remoteEnvelope.state;
+    // Stores saved but missing locally (not created yet, opted out or quarantined) keep their saved state
+    if (isDeepEqual(remoteState, baseState)) return { ...remoteState, ...localState };
+
+    this.logger.debug('File changed since last load, merging remote changes');
+    const strategy = this.config.conflictStrategy;
+    const previousStatus = this.saveStatus;
+    const mergedState = await mergeStates(baseState, localState, remoteState, strategy, async conflicts => {
+      this.logger.debug(`Detected ${conflicts.length} conflicting keys: ${conflicts.map(({ storeId, key }) => `${storeId}.${key}`).join(', ')}`);
+      this.updateSaveStatus(SAVE_STATUS.CONFLICT);
+      this.events.emit('conflict', { conflicts });
+
+      // Hide the saving backdrop so a resolver callback can prompt the user
+      if (typeof strategy === 'function') {
+        await this.showProgress(false);
+      }
+    });
+    // Conflicts are resolved, so go back to the status from before them, which is only saving during a save
+    if (this.saveStatus === SAVE_STATUS.CONFLICT) this.updateSaveStatus(previousStatus);
+
+    // Bring the merged result of any changed store back into the local stores
+    const changedState: StateTree = {};
+    Object.keys(localState).forEach(storeId => {
+      if (!isDeepEqual(mergedState[storeId], localState[storeId])) {
+        changedState[storeId] = mergedState[storeId];
+      }
+    });
+
+    if (Object.keys(changedState).length) {
+      await this.initializeStores(this.createEnvelope(changedState));
+    }
+
+    return mergedState;
+  }
+
+  /**
+   * Writes all stores into one file, merging in changes made by collaborators
+   * @async
+   * @param {string} fileName - The storage file name
+   * @param {StateTree} state - The state to save
+   * @returns {Promise<SizeMetrics>} The size of the data written
+   */
+  private async writeSingleFile(fileName: string, state: StateTree): Promise<SizeMetrics> {
+    let previousEnvelope = await this.readEnvelope(fileName);
+    let patchLog: PatchLog | null = null;
+
+    // Switching from the sharded layout, compare against the store files rather than the manifest
+    if (previousEnvelope?.shards) {
+      previousEnvelope = await this.loadShards(previousEnvelope, false);
+    } else if (previousEnvelope?.patchLog) {
+      patchLog = await this.readPatchLog(previousEnvelope);
+      if (patchLog) previousEnvelope = applyPatchLog(previousEnvelope, patchLog);
+    }
+
+    // Merge in anything a collaborator saved since we last loaded or saved
+    const mergedState = await this.mergeRemoteChanges(previousEnvelope, this.codec.encode(state));
+
+    // Append to the patch log until it is due to be compacted into a full save
+    const isCompactionDue = this.forceFullSave || !patchLog || patchLog.entries.length >= this.config.compactAfterPatches;
+    if (this.config.saveMode === 'delta' && previousEnvelope && patchLog && !isCompactionDue) {
+      return this.appendPatch(previousEnvelope, patchLog, mergedState);
+    }
+
+    const stateToSave = this.createEnvelope(mergedState);
+    if (this.config.saveMode === 'delta') {
+      stateToSave.patchLog = true;
+    }
+
+    const size = await this.writeEnvelope(fileName, stateToSave);
+
+    if (stateToSave.patchLog) {
+      await this.resetPatchLog(stateToSave);
+    }
+
+    // Keep what was overwritten as a restorable revision
+    if (previousEnvelope) {
+      await this.archiveRevision(previousEnvelope);
+    }
+
+    // Update last saved state reference after successful save
+    this.baseSnapshot = stateToSave;
+    this.manifest = null;
+    this.dirtyStores.clear();
+    this.forceFullSave = false;
+    return size;
+  }
+
+  /**
+   * Gets the storage file name of the patch log used by delta saves
+   * @async
+   * @returns {Promise<string>} The storage file name
+   */
+  private async getPatchLogFileName(): Promise<string> {
+    const key = await this.getStorageKey();
+    return this.storage.resolveKey(`${key}-patches`);
+  }
+
+  /**
+   * Reads the patch log of a full save
+   * @async
+   * @param {SaveEnvelope} envelope - The full save envelope
+   * @returns {Promise<PatchLog|null>} The patch log, or null if it is missing or belongs to an older full save
+   */
+  private async readPatchLog(envelope: SaveEnvelope): Promise<PatchLog | null> {
+    const patchLog: PatchLog | null = await this.unpackContent(await this.storage.read(await this.getPatchLogFileName()));
+
+    // A log left behind by an earlier full save no longer applies
+    if (!patchLog || !Array.isArray(patchLog.entries) || patchLog.baseSavedAt !== envelope.savedAt) {
+      this.logger.debug('No patch log found for the loaded file');
+      return null;
+    }
+
+    this.logger.debug(`Read ${patchLog.entries.length} patches from the patch log`);
+    return patchLog;
+  }
+
+  /**
+   * Starts an empty patch log for a newly written full save
+   * @async
+   * @param {SaveEnvelope} envelope - The full save envelope
+   */
+  private async resetPatchLog(envelope: SaveEnvelope): Promise<void> {
+    try {
+      const patchLog: PatchLog = { baseSavedAt: envelope.savedAt, entries: [] };
+      await this.writeContent(await this.getPatchLogFileName(), patchLog, ['entries']);
+      this.logger.debug('Compacted patch log into a full save');
+    } catch (error) {
+      // The full save is complete, a stale log is ignored and the next save compacts again
+      this.logger.error('Failed to reset patch log:', error);
+    }
+  }
+
+  /**
+   * Appends the difference between the saved state and the state to save to the patch log
+   * @async
+   * @param {SaveEnvelope} previousEnvelope - The saved envelope with its patch log applied
+   * @param {PatchLog} patchLog - The patch log of the full save
+   * @param {StateTree} state - The serialized state to save
+   * @returns {Promise<SizeMetrics>} The size of the data written
+   */
+  private async appendPatch(previousEnvelope: SaveEnvelope, patchLog: PatchLog, state: StateTree): Promise<SizeMetrics> {
+    const entry: PatchLogEntry = {
+      savedAt: new Date().toISOString(),
+      schemaVersions: this.getSchemaVersions(state),
+      patch: createPatch(previousEnvelope.state, state)
+    };
+
+    let size: SizeMetrics = { rawBytes: 0, storedBytes: 0 };
+    if (entry.patch.length || !isDeepEqual(entry.schemaVersions, previousEnvelope.schemaVersions)) {
+      const updatedLog: PatchLog = { ...patchLog, entries: [...patchLog.entries, entry] };
+      size = await this.writeContent(await this.getPatchLogFileName(), updatedLog, ['entries']);
+      this.logger.debug(`Appended ${entry.patch.length} operations to the patch log`);
+    }
+
+    // Update last saved state reference after successful save
+    this.baseSnapshot = { ...previousEnvelope, savedAt: entry.savedAt, schemaVersions: entry.schemaVersions, state };
+    this.manifest = null;
+    this.dirtyStores.clear();
+    return size;
+  }
+
+  /**
+   * Writes each changed store to its own file, then the manifest listing all store files
+   * @async
+   * @param {string} fileName - The storage file name of the manifest
+   * @param {StateTree} state - The state to save
+   * @returns {Promise<SizeMetrics>} The combined size of the store files and manifest written
+   */
+  private async writeShards(fileName: string, state: StateTree): Promise<SizeMetrics> {
+    const previousSnapshot = this.baseSnapshot;
+    const remoteManifest = await this.readEnvelope(fileName);
+    // Keep store files added by collaborators, as well as those we've already written
+    const shards: Record<string, ShardInfo> = { ...remoteManifest?.shards, ...this.manifest?.shards };
+
+    // Only stores changed since their file was last written need rewriting
+    const dirtyIds = Object.keys(state).filter(storeId => this.dirtyStores.has(storeId) || !shards[storeId]);
+    dirtyIds.forEach(storeId => this.dirtyStores.delete(storeId));
+
+    const savedState: StateTree = { ...previousSnapshot?.state };
+    const savedVersions: Record<string, number> = { ...previousSnapshot?.schemaVersions };
+    const size: SizeMetrics = { rawBytes: 0, storedBytes: 0 };
+    const addSize = ({ rawBytes, storedBytes }: SizeMetrics): void => {
+      size.rawBytes += rawBytes;
+      size.storedBytes += storedBytes;
+    };
+
+    try {
+      for (const storeId of dirtyIds) {
+        const shardFileName = await this.getShardFileName(storeId);
+        const baseState = previousSnapshot?.state[storeId] !== undefined ? { [storeId]: previousSnapshot.state[storeId] } : {};
+
+        // Merge per store, so collaborators only conflict when they changed the same store
+        const mergedState = await this.mergeRemoteChanges(
+          await this.readEnvelope(shardFileName),
+          { [storeId]: this.codec.encode(state[storeId]) },
+          baseState
+        );
+
+        // Undo history is kept in the manifest rather than every store file
+        const { history, ...shard } = this.createEnvelope({ [storeId]: mergedState[storeId] });
+        addSize(await this.writeEnvelope(shardFileName, shard));
+
+        shards[storeId] = { savedAt: shard.savedAt, schemaVersion: shard.schemaVersions[storeId] };
+        savedState[storeId] = mergedState[storeId];
+        savedVersions[storeId] = shard.schemaVersions[storeId];
+        this.logger.debug(`Saved store file for ${storeId}`);
+      }
+
+      const manifest: SaveEnvelope = { ...this.createEnvelope({}), shards };
+      addSize(await this.writeEnvelope(fileName, manifest));
+      this.manifest = manifest;
+    } catch (error) {
+      // Store files which failed to write still need writing
+      dirtyIds.forEach(storeId => this.dirtyStores.add(storeId));
+      throw error;
+    }
+
+    // Keep the combined state from before this save as a restorable revision
+    if (previousSnapshot && dirtyIds.length) {
+      await this.archiveRevision(previousSnapshot);
+    }
+
+    // Update last saved state reference after successful save
+    this.baseSnapshot = { ...this.manifest, schemaVersions: savedVersions, state: savedState };
+    return size;
+  }
+
+  /**
+   * Saves state to JSON file
+   * @async
+   * @param {StateTree} state - The state to save
+   * @returns {Promise<boolean>} Whether the save was successful
+   */
+  private async saveStateToFile(state: StateTree): Promise<boolean> {
+    // Changes made after the state was collected must leave the status unsaved
+    const generation = this.dirtyGeneration;
+    let fileName: string | null = null;
+    let savedState = state;
+
+    try {
+      this.updateSaveStatus(SAVE_STATUS.SAVING);
+
+      // Show loading progress
+      await this.showProgress({ title: 'Saving tool data', backdrop: 'static' });
+
+      fileName = await this.getStorageFileName();
+
+      if (!fileName) {
+        throw new Error('No fileName returned');
+      }
+
+      savedState = this.transformForSave(state);
+      const validState = this.validateForSave(savedState);
+      this.events.emit('beforeSave', { fileName, state: validState });
+      const scopedState = this.splitByScope(validState);
+      const defaultState = scopedState[this.getDefaultScope()] ?? {};
+      const size = this.config.layout === 'sharded'
+        ? await this.writeShards(fileName, defaultState)
+        : await this.writeSingleFile(fileName, defaultState);
+      await this.writeScopeFiles(scopedState);
+
+      this.updateSizeMetrics(size);
+      this.updateSaveStatus(this.dirtyGeneration === generation ? SAVE_STATUS.SAVED : SAVE_STATUS.UNSAVED);
+
+      // Anything journaled from an earlier failure is now superseded
+      this.retryAttempt = 0;
+      this.clearRetry();
+      await this.clearJournal(fileName);
+
+      this.logger.info(`State saved to file: ${fileName}`);
+      // Saving merged in anything collaborators saved before
+      if (this.remoteChanges) this.updateRemoteChanges(null);
+      this.events.emit('afterSave', { fileName, size });
+      this.tabCoordinator?.post({ type: 'saved', savedAt: this.baseSnapshot?.savedAt ?? new Date().toISOString() });
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to save state to file:', error);
+
+      // Retrying can't shrink the data, fix a wrong key or make invalid state valid, so tell the user instead
+      if (error instanceof PayloadTooLargeError || error instanceof DecryptionError || error instanceof StateValidationError) {
+        const advice = error instanceof PayloadTooLargeError ? ' Remove some data and save again.' : '';
+        this.notify({ title: 'Changes not saved', message: `Your changes could not be saved: ${error.message}.${advice}`, type: 'error' });
+        this.updateSaveStatus(SAVE_STATUS.UNSAVED);
+        this.events.emit('saveError', { error: error as Error, willRetry: false });
+        return false;
+      }
+
+      // Leave unresolved conflicts flagged so the UI can prompt for another attempt
+      const willRetry = this.saveStatus !== SAVE_STATUS.CONFLICT;
+      if (willRetry) {
+        // Keep the unsaved state locally so it isn't lost if the tab closes before a retry succeeds
+        if (fileName) {
+          await this.recordFailedSave(fileName, this.createEnvelope(this.codec.encode(savedState)));
+        }
+        this.updateSaveStatus(SAVE_STATUS.UNSAVED);
+        this.scheduleRetry();
+      }
+      this.events.emit('saveError', { error: error as Error, willRetry });
+      return false;
+    } finally {
+      // Hide loading progress
+      await this.showProgress(false);
+    }
+  }
+
+  /**
+   * Writes the state of each scope other than the default to its own file, skipping files which are unchanged
+   * @async
+   * @param {Object} scopedState - The state of each scope, keyed by store id
+   */
+  private async writeScopeFiles(scopedState: Partial<Record<StoreScope, StateTree>>): Promise<void> {
+    for (const scope of STORE_SCOPES) {
+      if (scope === this.getDefaultScope() || (!scopedState[scope] && !this.scopeSnapshots.get(scope))) continue;
+
+      // Writing a file which failed to load would replace its saved state with defaults
+      if (!this.scopeSnapshots.has(scope)) {
+        this.logger.warn(`Not saving ${scope} scoped state until it loads`);
+        continue;
+      }
+
+      const state = this.codec.encode(scopedState[scope] ?? {});
+      if (isDeepEqual(state, this.scopeSnapshots.get(scope)?.state)) continue;
+
+      // Only the current user or tab writes these files, so there are no collaborators' changes to merge
+      const envelope = this.createEnvelope(state);
+      delete envelope.history;
+      await this.writeEnvelope(await this.getStorageFileName(scope), envelope, this.getScopeStorage(scope));
+      this.scopeSnapshots.set(scope, envelope);
+      this.logger.debug(`Saved ${scope} scoped state`);
+    }
+  }
+
+  /**
+   * Applies the `beforeSave` transform to the state of each store
+   * @param {StateTree} state - The state to save, keyed by store id
+   * @returns {StateTree} The transformed state
+   */
+  private transformForSave(state: StateTree): StateTree {
+    const { beforeSave } = this.config;
+    if (!beforeSave) return state;
+
+    return Object.keys(state).reduce((transformed, storeId) => {
+      // Give the transform a copy so it can't change the live store
+      transformed[storeId] = beforeSave(this.cloneState(state[storeId]), storeId);
+      return transformed;
+    }, {} as StateTree);
+  }
+
+  /**
+   * Save all stores, allowing one write in flight and coalescing further requests into a single follow-up save
+   * @returns {Promise<boolean>} Whether the save covering this request was successful
+   */
+  private saveAllStores(): Promise<boolean> {
+    // Saving now could overwrite the file which failed to load
+    if (this.loadError) {
+      this.logger.debug('Save blocked until saved data loads');
+      return Promise.resolve(false);
+    }
+
+    if (!this.currentSave) return this.startSave();
+
+    if (!this.pendingSave) {
+      this.logger.debug('Save already in progress, queueing another with the latest state');
+      this.pendingSave = this.currentSave.then(() => {
+        this.pendingSave = null;
+        return this.startSave();
+      });
+    }
+    return this.pendingSave;
+  }
+
+  /**
+   * Starts writing all stores and tracks it as the in-flight save
+   * @returns {Promise<boolean>} Whether the save was successful
+   */
+  private startSave(): Promise<boolean> {
+    const save = this.writeAllStores().then(success => {
+      this.currentSave = null;
+      return success;
+    }, error => {
+      this.currentSave = null;
+      this.logger.error('Save failed:', error);
+      return false;
+    });
+
+    this.currentSave = save;
+    return save;
+  }
+
+  /**
+   * Collects the state of all synced stores and writes it
+   * @async
+   * @returns {Promise<boolean>} Whether the save was successful
+   */
+  private async writeAllStores(): Promise<boolean> {
+    const allState = this.collectState();
+
+    if (!allState) {
+      this.logger.debug('No stores found to save');
+      return false;
+    }
+
+    this.logger.debug(`Saving state for stores: ${Object.keys(allState).join(', ')}`);
+    return await this.saveStateToFile(allState);
+  }
+
+  /**
+   * Collects the persisted state of all synced stores
+   * @returns {StateTree|null} The state keyed by store id, or null if no stores are tracked
+   */
+  private collectState(): StateTree | null {
+    // Collect all store states
+    const allState: StateTree = {};
+
+    if (!this.trackedStores.size) return null;
+
+    // Merge all store states into one object
+    this.trackedStores.forEach((store: Store, id: string) => {
+      // Skip our internal sync status store and any stores opted out of persistence
+      if (!this.isStoreSynced(id)) return;
+
+      allState[id] = filterStoreState({ ...store.$state }, this.getStoreConfig(id));
+    });
+
+    return allState;
+  }
+
+  /**
+   * Initialize all stores from loaded state, migrating each store to its current schema version
+   * @async
+   * @param {SaveEnvelope} envelope - The loaded save envelope
+   * @param {boolean} [replace=false] - Whether to replace the persisted state rather than merge the loaded state into it
+   * @returns {Promise<string[]>} The ids of the stores hydrated
+   */
+  private async initializeStores(envelope: SaveEnvelope, replace = false): Promise<string[]> {
+    if (!envelope || !envelope.state) return [];
+
+    // Update each store with its corresponding state, stores not created yet are hydrated when installed
+    const hydratedIds = Object.keys(envelope.state).filter(storeId => this.hydrateStore(storeId, envelope, replace));
+
+    // Later undo steps start from the state just applied
+    this.refreshHistorySnapshot();
+    return hydratedIds;
+  }
+
+  /**
+   * Applies a store's state from an envelope, migrating it to the store's current schema version
+   * @param {string} storeId - The store id
+   * @param {SaveEnvelope} envelope - The envelope holding the store state
+   * @param {boolean} [replace=false] - Whether to replace the persisted state rather than merge the loaded state into it
+   * @returns {boolean} Whether the store was hydrated
+   */
+  private hydrateStore(storeId: string, envelope: SaveEnvelope, replace = false): boolean {
+    const store = this.trackedStores.get(storeId);
+    const storeState = envelope.state[storeId];
+    if (!store || storeState === undefined || !this.isStoreSynced(storeId)) return false;
+
+    const storeConfig = this.getStoreConfig(storeId);
+    // Revive any encoded types back to their original form, then upgrade old schemas
+    const migratedState = migrateStoreState(
+      storeId,
+      this.codec.decode(storeState),
+      envelope.schemaVersions[storeId] ?? 1,
+      storeConfig,
+      this.logger
+    );
+    const loadedState = this.config.afterLoad ? this.config.afterLoad(migratedState, storeId) : migratedState;
+    // Only apply persisted paths so omitted state keeps its default values
+    let parsedState = filterStoreState(loadedState, storeConfig);
+    // Replacing keeps only the current state which isn't persisted, so keys missing from the loaded state are removed
+    const getNextState = (state: Record<string, any>): Record<string, any> => replace
+      ? mergeScopedState(getUnpersistedState(store.$state, storeConfig), state)
+      : { ...store.$state, ...state };
+
+    if (storeConfig.validate) {
+      // Validate the state the store would end up with, keeping the current state if it's refused
+      const checkedState = this.checkStoreState(storeId, getNextState(parsedState), 'load');
+      if (checkedState === null) return false;
+      parsedState = filterStoreState(checkedState, storeConfig);
+    }
+
+    // Reset the store with the loaded state, merging plain objects unless replacing
+    this.isHydrating = true;
+    try {
+      if (replace) {
+        const nextState = getNextState(parsedState);
+        store.$patch((currentState: StateTree) => replaceObjectState(currentState, nextState));
+      } else {
+        store.$patch({ ...parsedState });
+      }
+    } finally {
+      this.isHydrating = false;
+    }
+    this.logger.debug(`Initialized store ${storeId} with loaded state`);
+    return true;
+  }
+
+  /**
+   * Deeply copies state, keeping any types the codec handles
+   * @param {any} state - The state to copy
+   * @returns {any} The copy
+   */
+  private cloneState(state: any): any {
+    return this.codec.decode(this.codec.encode(state));
+  }
+
+  /**
+   * Validates a store's state, repairing or quarantining it as configured when it's invalid
+   * @param {string} storeId - The store id
+   * @param {any} state - The full state to validate
+   * @param {('load'|'save')} stage - Whether the state is being loaded or saved
+   * @returns {any|null} The valid or repaired state, or null if it was refused
+   */
+  private checkStoreState(storeId: string, state: any, stage: 'load' | 'save'): any | null {
+    const { validate, onInvalid = 'reject' } = this.getStoreConfig(storeId);
+    if (!validate) return state;
+
+    const result = validate(state);
+    if (result.valid) {
+      this.updateValidationIssues(storeId, null);
+      return result.value ?? state;
+    }
+
+    const issues = result.issues ?? [];
+    this.updateValidationIssues(storeId, issues);
+    this.logger.error(`Invalid state on ${stage}:`, new StateValidationError(storeId, issues));
+
+    if (onInvalid === 'strip' || onInvalid === 'defaults') {
+      const defaults = this.cloneState(this.defaultStates.get(storeId) ?? {});
+      const repairedState = onInvalid === 'strip' ? stripUnknownKeys(state, defaults) : fillDefaults(state, defaults, issues);
+      const repairedResult = validate(repairedState);
+      if (repairedResult.valid) {
+        this.logger.debug(`Repaired invalid state of ${storeId} using "${onInvalid}"`);
+        return repairedResult.value ?? repairedState;
+      }
+
+      // Defaults are the last resort when resetting the invalid keys isn't enough
+      if (onInvalid === 'defaults') {
+        this.logger.debug(`Reset invalid state of ${storeId} to its defaults`);
+        return defaults;
+      }
+      return null;
+    }
+
+    if (onInvalid === 'quarantine') {
+      this.quarantineState(storeId, state, issues, stage);
+    }
+    return null;
+  }
+
+  /**
+   * Writes invalid state to a side file for support, in the background
+   * @param {string} storeId - The store id
+   * @param {any} state - The invalid state
+   * @param {ValidationIssue[]} issues - Problems found in the state
+   * @param {('load'|'save')} stage - Whether the state was being loaded or saved
+   */
+  private quarantineState(storeId: string, state: any, issues: ValidationIssue[], stage: 'load' | 'save'): void {
+    (async () => {
+      try {
+        const key = await this.getStorageKey();
+        const fileName = await this.storage.resolveKey(`${key}-quarantine-${storeId}`);
+        const entry = { storeId, stage, quarantinedAt: new Date().toISOString(), issues, state: this.codec.encode(state) };
+        await this.writeContent(fileName, entry, ['state']);
+        this.logger.debug(`Quarantined invalid state of ${storeId} in ${fileName}`);
+      } catch (error) {
+        this.logger.error(`Failed to quarantine invalid state of ${storeId}:`, error);
+      }
+    })();
+  }
+
+  /**
+   * Validates the state of each store before it is saved
+   * @param {StateTree} state - The collected state keyed by store id
+   * @returns {StateTree} The state to save, with repaired stores and without quarantined stores
+   * @throws {StateValidationError} If a store's state is invalid and rejected
+   */
+  private validateForSave(state: StateTree): StateTree {
+    const validState: StateTree = {};
+
+    Object.keys(state).forEach(storeId => {
+      const storeConfig = this.getStoreConfig(storeId);
+      if (!storeConfig.validate) {
+        validState[storeId] = state[storeId];
+        return;
+      }
+
+      // Validate the state as it will be saved, after the `beforeSave` transform
+      const checkedState = this.checkStoreState(storeId, state[storeId], 'save');
+      if (checkedState !== null) {
+        validState[storeId] = filterStoreState(checkedState, storeConfig);
+      } else if ((storeConfig.onInvalid ?? 'reject') !== 'quarantine') {
+        throw new StateValidationError(storeId, this.invalidStores.get(storeId) ?? []);
+      }
+      // Quarantined stores are left out, keeping whatever was saved before
+    });
+
+    return validState;
+  }
+
+  /**
+   * Tracks a store installed with the plugin, subscribing to its changes and hydrating it if state was already loaded
+   * @param {Store} store - The installed store
+   */
+  private trackStore(store: Store): void {
+    // Skip our own status store to avoid circular updates
+    if (isSyncStatusStoreId(store.$id)) return;
+
+    this.trackedStores.set(store.$id, store);
+
+    // Keep the initial state to repair invalid state with, and to reset the store to when switching save slots
+    this.defaultStates.set(store.$id, this.cloneState(store.$state));
+
+    // Subscribe to state changes
+    store.$subscribe(() => {
+      // State applied from storage isn't a local change, nothing is tracked until loading finishes, and stores
+      // synced by another plugin are that plugin's changes
+      if (this.isHydrating || !this.initialized || !this.isStoreSynced(store.$id)) return;
+
+      this.recordHistory();
+      this.markLocalChange(store.$id);
+    });
+
+    // Stores created after loading are hydrated lazily from the last loaded or saved state
+    const loadedData = this.initialized ? this.getLoadedEnvelope() : null;
+    const hasUnloadedScopes = this.getStoreScopes(store.$id).some(scope => {
+      return scope !== this.getDefaultScope() && !this.scopeSnapshots.has(scope);
+    });
+    if (this.initialized && hasUnloadedScopes && this.isStoreSynced(store.$id)) {
+      this.loadLazyScopes(store.$id);
+    } else if (loadedData && this.hydrateStore(store.$id, loadedData)) {
+      this.refreshHistorySnapshot();
+    } else if (this.initialized && this.manifest?.shards?.[store.$id]) {
+      this.loadLazyShard(store.$id);
+    }
+  }
+
+  /**
+   * Gets the storage file name of a store in the sharded layout
+   * @async
+   * @param {string} storeId - The store id
+   * @returns {Promise<string>} The storage file name
+   */
+  private async getShardFileName(storeId: string): Promise<string> {
+    const key = await this.getStorageKey();
+    return this.storage.resolveKey(`${key}-store-${storeId}`);
+  }
+
+  /**
+   * Loads the store files listed in a sharded layout manifest into one envelope
+   * @async
+   * @param {SaveEnvelope} manifest - The manifest envelope
+   * @param {boolean} lazy - Whether to only load the files of stores which already exist
+   * @returns {Promise<SaveEnvelope>} The manifest with the loaded store states
+   */
+  private async loadShards(manifest: SaveEnvelope, lazy: boolean): Promise<SaveEnvelope> {
+    const envelope: SaveEnvelope = { ...manifest, schemaVersions: {}, state: {} };
+    const storeIds = Object.keys(manifest.shards ?? {}).filter(storeId => !lazy || this.trackedStores.has(storeId));
+
+    for (const storeId of storeIds) {
+      const shard = await this.readEnvelope(await this.getShardFileName(storeId));
+      if (shard && shard.state[storeId] !== undefined) {
+        envelope.state[storeId] = shard.state[storeId];
+        envelope.schemaVersions[storeId] = shard.schemaVersions[storeId] ?? 1;
+      }
+    }
+
+    this.logger.debug(`Loaded ${storeIds.length} store files`);
+    return envelope;
+  }
+
+  /**
+   * Loads and applies the file of a store created after a lazily loaded sharded layout
+   * @async
+   * @param {string} storeId - The store id
+   */
+  private async loadLazyShard(storeId: string): Promise<void> {
+    try {
+      const shard = await this.readEnvelope(await this.getShardFileName(storeId));
+      if (!shard || shard.state[storeId] === undefined || !this.baseSnapshot) return;
+
+      this.baseSnapshot.state[storeId] = shard.state[storeId];
+      this.baseSnapshot.schemaVersions[storeId] = shard.schemaVersions[storeId] ?? 1;
+      this.hydrateStore(storeId, this.baseSnapshot);
+      this.refreshHistorySnapshot();
+    } catch (error) {
+      this.logger.error(`Failed to load store file for ${storeId}:`, error);
+    }
+  }
+
+  /**
+   * Saves all stores if there are unsaved changes, coalescing with any in-flight save
+   */
+  private requestAutoSave(): void {
+    this.clearDebouncedSave();
+
+    // Tabs share their changes, so only one of them needs to save
+    if (this.tabCoordinator && !this.tabCoordinator.isLeader()) {
+      this.logger.debug('Auto-save left to the leader tab');
+      return;
+    }
+
+    if (this.saveStatus === SAVE_STATUS.SAVED) {
+      this.logger.debug('Auto-save skipped - no changes detected');
+      return;
+    }
+
+    this.logger.debug('Auto-save triggered');
+    this.saveAllStores();
+  }
+
+  /**
+   * Restarts the debounced auto-save after a change, capped by the maximum wait
+   */
+  private scheduleDebouncedSave(): void {
+    if (this.config.autoSaveStrategy !== 'debounce' || !this.initialized || typeof window === 'undefined') return;
+
+    if (this.debounceTimeout !== null) {
+      window.clearTimeout(this.debounceTimeout);
+    }
+    this.debounceTimeout = window.setTimeout(() => this.requestAutoSave(), this.config.autoSaveDebounceSeconds * 1000);
+
+    // Continuous changes postpone the save no longer than the maximum wait
+    if (this.maxWaitTimeout === null) {
+      this.maxWaitTimeout = window.setTimeout(() => this.requestAutoSave(), this.config.autoSaveMaxWaitSeconds * 1000);
+    }
+  }
+
+  /**
+   * Cancels any pending debounced auto-save
+   */
+  private clearDebouncedSave(): void {
+    if (this.debounceTimeout !== null) {
+      window.clearTimeout(this.debounceTimeout);
+      this.debounceTimeout = null;
+    }
+
+    if (this.maxWaitTimeout !== null) {
+      window.clearTimeout(this.maxWaitTimeout);
+      this.maxWaitTimeout = null;
+    }
+  }
+
+  /**
+   * Sets up automatic saving using the configured strategy
+   */
+  private setupAutoSave(): void {
+    if (typeof window === 'undefined') {
+      this.logger.debug('Auto-save unavailable outside the browser');
+      return;
+    }
+
+    this.registerBlur();
+
+    if (this.config.autoSaveStrategy === 'debounce') {
+      this.logger.debug(`Setting up auto-save ${this.config.autoSaveDebounceSeconds} seconds after changes`);
+      return;
+    }
+
+    if (this.config.autoSaveIntervalMinutes <= 0) {
+      this.logger.debug('Auto-save disabled');
+      return;
+    }
+
+    // Clear any existing interval
+    if (this.autoSaveInterval !== null) {
+      window.clearInterval(this.autoSaveInterval);
+    }
+
+    const intervalMs = this.config.autoSaveIntervalMinutes * 60 * 1000;
+    this.logger.debug(`Setting up auto-save every ${this.config.autoSaveIntervalMinutes} minutes`);
+
+    this.autoSaveInterval = window.setInterval(() => {
+      this.requestAutoSave();
+    }, intervalMs);
+  }
+
+  /**
+   * Creates the sync status store
+   */
+  private createSyncStatusStore(): void {
+    // Create the store instance
+    if (this.pinia) {
+      this.syncStatusStore = useTeraSyncStatus(this.pinia, this.config.keyPrefix);
+      this.syncStatusStore.updateSaveSlot(this.saveSlot);
+    } else {
+      this.logger.warn('Pinia instance not found, sync status store not created');
+    }
+  }
+
+  /**
+   * Initializes the plugin state and setup
+   * @async
+   */
+  private async initialize(): Promise<void> {
+    if (!this.teraReady) {
+      this.logger.debug('TERA not ready, skipping initialization');
+      return;
+    }
+
+    // Show loading
+    await this.showProgress({ title: 'Loading tool data', backdrop: 'static' });
+
+    try {
+      // Create our sync status store
+      this.createSyncStatusStore();
+
+      // Try to load from file, staying blocked rather than falling back to defaults if it fails
+      let fileData: SaveEnvelope | null;
+      try {
+        fileData = await this.loadStateFromFile();
+        await this.loadScopeFiles();
+        this.baseSnapshot = fileData;
+        const loadedData = this.getLoadedEnvelope();
+        if (loadedData) {
+          // Initialize all stores with the loaded data of every scope
+          await this.initializeStores(loadedData);
+        }
+      } catch (error) {
+        // Saved data which can't be decoded, migrated, transformed or validated must not be saved over either
+        const loadError = error instanceof LoadError
+          ? error
+          : new LoadError('corrupt', `Saved data could not be applied to the stores: ${(error as Error).message}`, error);
+        this.blockOnLoadError(loadError);
+        this.events.emit('afterLoad', { envelope: null, error: loadError });
+        return;
+      }
+      if (fileData) {
+        this.restoreHistory(fileData);
+        this.updateSizeMetrics(null);
+        this.logger.info('Stores initialized from file data');
+        this.updateSaveStatus(SAVE_STATUS.SAVED);
+      }
+
+      // Offer to restore a save that failed before the tab was closed
+      await this.checkJournal(fileData);
+      if (!fileData) {
+        this.logger.debug('No existing data found, using default store states');
+        this.updateSaveStatus(SAVE_STATUS.UNSAVED);
+      }
+      this.events.emit('afterLoad', { envelope: fileData, error: null });
+
+      // Start undo history from the loaded or default state
+      this.refreshHistorySnapshot();
+
+      this.initialized = true;
+    } catch (error) {
+      this.logger.error('State initialization failed:', error);
+      return;
+    } finally {
+      // Hide loading, whether or not the state loaded
+      await this.showProgress(false);
+    }
+
+    try {
+      // Show initial alert about manual saving
+      this.showInitialAlert();
+
+      // Register hotkeys
+      this.registerHotkeys();
+
+      // Register the beforeunload listener
+      this.registerBeforeUnload();
+
+      // Retry failed saves when the connection returns
+      this.registerOnline();
+
+      // Share changes with other tabs open on the same data
+      await this.setupTabSync();
+
+      // Look out for changes saved by collaborators
+      await this.setupWatch();
+
+      // Setup auto-save
+      this.setupAutoSave();
+
+    } catch (error) {
+      this.logger.error('State initialization failed:', error);
+    }
+  }
+
+  /**
+   * Loads the files of the scopes other than the default which any known store uses
+   * @async
+   * @throws {LoadError} If a file exists, or may exist, but could not be loaded
+   */
+  private async loadScopeFiles(): Promise<void> {
+    this.scopeSnapshots.clear();
+
+    for (const scope of this.getUsedScopes()) {
+      this.scopeSnapshots.set(scope, await this.loadStateFromFile(scope));
+    }
+  }
+
+  /**
+   * Gets the scopes other than the default which any known synced store uses
+   * @returns {StoreScope[]} The used scopes
+   */
+  private getUsedScopes(): StoreScope[] {
+    const storeIds = new Set([...Object.keys(this.config.stores), ...this.storeOptions.keys(), ...this.trackedStores.keys()]);
+    const usedScopes = new Set<StoreScope>();
+    storeIds.forEach(storeId => {
+      if (this.isStoreSynced(storeId)) this.getStoreScopes(storeId).forEach(scope => usedScopes.add(scope));
+    });
+
+    return STORE_SCOPES.filter(scope => scope !== this.getDefaultScope() && usedScopes.has(scope));
+  }
+
+  /**
+   * Combines the state loaded from the file of every scope into one envelope
+   * @returns {SaveEnvelope|null} The combined envelope, or null if nothing was loaded
+   */
+  private getLoadedEnvelope(): SaveEnvelope | null {
+    const envelopes = [this.baseSnapshot, ...this.scopeSnapshots.values()].filter((envelope): envelope is SaveEnvelope => !!envelope);
+    if (envelopes.length <= 1) return envelopes[0] ?? null;
+
+    const [first, ...others] = envelopes;
+    const combined: SaveEnvelope = { ...first, schemaVersions: { ...first.schemaVersions }, state: { ...first.state } };
+    others.forEach(envelope => {
+      Object.keys(envelope.state).forEach(storeId => {
+        if (storeId in combined.state) {
+          combined.state[storeId] = mergeScopedState(combined.state[storeId], envelope.state[storeId]);
+        } else {
+          combined.state[storeId] = envelope.state[storeId];
+          combined.schemaVersions[storeId] = envelope.schemaVersions[storeId] ?? 1;
+        }
+      });
+    });
+    return combined;
+  }
+
+  /**
+   * Loads the files of scopes first used by a store created after loading, then applies the store's state
+   * @async
+   * @param {string} storeId - The store id
+   */
+  private async loadLazyScopes(storeId: string): Promise<void> {
+    try {
+      for (const scope of this.getStoreScopes(storeId)) {
+        if (scope === this.getDefaultScope() || this.scopeSnapshots.has(scope)) continue;
+        this.scopeSnapshots.set(scope, await this.loadStateFromFile(scope));
+      }
+
+      const loadedData = this.getLoadedEnvelope();
+      if (loadedData && this.hydrateStore(storeId, loadedData)) this.refreshHistorySnapshot();
+    } catch (error) {
+      this.logger.error(`Failed to load scoped state for ${storeId}:`, error);
+    }
+  }
+
+  /**
+   * Blocks saving after saved state failed to load, so the file isn't overwritten with defaults
+   * @param {LoadError} error - The load error
+   */
+  private blockOnLoadError(error: LoadError): void {
+    this.loadError = error;
+    this.updateLoadError();
+    this.updateSaveStatus(SAVE_STATUS.LOAD_FAILED);
+
+    const advice = error.reason === 'decryption'
+      ? 'Check the passphrase or key and try again.'
+      : 'Try loading again, or start fresh to back up the saved file and continue with empty data.';
+    this.notify({
+      title: 'Saved data not loaded',
+      message: `Your saved data could not be loaded, so changes will not be saved. ${error.message}. ${advice}`,
+      type: 'error'
+    });
+  }
+
+  /**
+   * Tries loading saved state again after a failed load
+   * @async
+   * @returns {Promise<boolean>} Whether the state loaded
+   */
+  private async retryLoad(): Promise<boolean> {
+    if (!this.loadError) return this.initialized;
+
+    this.loadError = null;
+    this.updateLoadError();
+
+    await this.initialize();
+    return this.initialized;
+  }
+
+  /**
+   * Backs up the files which fail to load, then replaces them with empty state and continues from defaults
+   * @async
+   * @throws {Error} If no load failed, or a file can't be backed up
+   */
+  private async startFresh(): Promise<void> {
+    if (!this.loadError) {
+      throw new Error('Can only start fresh after saved data failed to load');
+    }
+
+    for (const scope of [this.getDefaultScope(), ...this.getUsedScopes()]) {
+      // Keep the files of other scopes which still load
+      try {
+        await this.loadStateFromFile(scope);
+        continue;
+      } catch (error) {
+        this.logger.debug(`Replacing ${scope} scoped file which failed to load:`, error);
+      }
+
+      const storage = this.getScopeStorage(scope);
+      const fileName = await this.getStorageFileName(scope);
+      const content = await storage.read(fileName);
+
+      // Copy the content as stored, so it stays recoverable even if it can't be parsed or decrypted
+      if (content !== null) {
+        const key = await this.getStorageKey(scope);
+        const backupFileName = await storage.resolveKey(`${key}-backup-${Date.now()}`);
+        await storage.write(backupFileName, content);
+        this.logger.debug(`Backed up unloadable file to ${backupFileName}`);
+      }
+
+      await this.writeEnvelope(fileName, this.createEnvelope({}), storage);
+    }
+
+    // Changes made while saving was blocked were made on state which never loaded, so they go too
+    this.resetStores();
+    await this.retryLoad();
+  }
+
+  /**
+   * Joins the other tabs open on the same data, if cross-tab sync is enabled and BroadcastChannel is available
+   * @async
+   */
+  private async setupTabSync(): Promise<void> {
+    this.closeTabSync();
+    if (!this.config.enableCrossTabSync) return;
+
+    // Name the channel after the file rather than its key, which is the same in every project
+    const fileName = await this.getStorageFileName();
+    this.tabCoordinator = createTabCoordinator<TabMessage>(`tera-file-sync:${fileName}`, {
+      onMessage: (message, tabId) => this.handleTabMessage(message, tabId),
+      onLeaderChange: isLeader => this.handleLeaderChange(isLeader),
+      onTabJoined: tabId => this.shareUnsavedState(tabId)
+    });
+
+    if (!this.tabCoordinator) {
+      this.logger.debug('BroadcastChannel unavailable, tabs will not share changes');
+    }
+  }
+
+  /**
+   * Takes over auto-saving when this tab becomes the leader, saving changes whose debounced save was left to a leader
+   * @param {boolean} isLeader - Whether this tab now leads
+   */
+  private handleLeaderChange(isLeader: boolean): void {
+    this.logger.debug(isLeader ? 'This tab now auto-saves for all tabs' : 'Another tab now auto-saves');
+    if (isLeader && this.saveStatus === SAVE_STATUS.UNSAVED) this.scheduleDebouncedSave();
+  }
+
+  /**
+   * Leaves the other tabs, dropping any changes not sent to them yet
+   */
+  private closeTabSync(): void {
+    if (this.tabBroadcastTimeout !== null) {
+      clearTimeout(this.tabBroadcastTimeout);
+      this.tabBroadcastTimeout = null;
+    }
+    this.pendingTabStores.clear();
+
+    this.tabCoordinator?.close();
+    this.tabCoordinator = null;
+  }
+
+  /**
+   * Queues stores changed locally to be sent to the other tabs, collecting quick successive changes into one message
+   * @param {string[]} storeIds - The changed stores
+   */
+  private queueTabBroadcast(storeIds: string[]): void {
+    if (!this.tabCoordinator) return;
+
+    // Remember which version the changes were made on
+    storeIds.forEach(storeId => {
+      if (!this.pendingTabStores.has(storeId)) this.pendingTabStores.set(storeId, this.getStoreClock(storeId).clock);
+    });
+    if (this.tabBroadcastTimeout !== null) return;
+
+    this.tabBroadcastTimeout = setTimeout(() => {
+      this.tabBroadcastTimeout = null;
+      const tabId = this.tabCoordinator?.tabId ?? '';
+      const bases = new Map(this.pendingTabStores);
+      this.pendingTabStores.clear();
+
+      // Each batch of changes is a new version of the store
+      bases.forEach((_, storeId) => {
+        this.storeClocks.set(storeId, { clock: this.getStoreClock(storeId).clock + 1, tabId });
+      });
+      this.tabCoordinator?.post({ type: 'state', stores: this.collectTabState(Array.from(bases.keys()), bases) });
+    }, TAB_BROADCAST_DELAY_MS);
+  }
+
+  /**
+   * Gets the version of a store's state shared between tabs
+   * @param {string} storeId - The store id
+   * @returns {StoreClock} The version, zero if the store wasn't changed in any tab yet
+   */
+  private getStoreClock(storeId: string): StoreClock {
+    return this.storeClocks.get(storeId) ?? { clock: 0, tabId: '' };
+  }
+
+  /**
+   * Serializes the persisted state of stores for sending to other tabs
+   * @param {string[]} storeIds - The stores to serialize
+   * @param {Map<string, number>} [bases] - Version each store's changes were made on, defaulting to their current version
+   * @returns {Record<string, TabStoreState>} The serialized state keyed by store id
+   */
+  private collectTabState(storeIds: string[], bases?: Map<string, number>): Record<string, TabStoreState> {
+    return storeIds.reduce((stores, storeId) => {
+      const store = this.trackedStores.get(storeId);
+      if (store && this.isStoreSynced(storeId)) {
+        const { clock } = this.getStoreClock(storeId);
+        stores[storeId] = {
+          state: this.codec.encode(filterStoreState({ ...store.$state }, this.getStoreConfig(storeId))),
+          clock,
+          base: bases?.get(storeId) ?? clock
+        };
+      }
+      return stores;
+    }, {} as Record<string, TabStoreState>);
+  }
+
+  /**
+   * Sends the state of every store to a newly opened tab, which only loaded the saved state and doesn't know the
+   * changes not saved yet or the version of each store
+   * @param {string} tabId - The new tab
+   */
+  private shareUnsavedState(tabId: string): void {
+    if (!this.tabCoordinator?.isLeader()) return;
+
+    this.tabCoordinator.post({ type: 'state', stores: this.collectTabState(Array.from(this.trackedStores.keys())), to: tabId });
+  }
+
+  /**
+   * Handles a message from another tab open on the same data
+   * @param {TabMessage} message - The message
+   * @param {string} fromTabId - The sending tab
+   */
+  private handleTabMessage(message: TabMessage, fromTabId: string): void {
+    if (!this.initialized || !this.tabCoordinator) return;
+
+    if (message.type === 'saved') {
+      this.reloadAfterTabSave();
+      return;
+    }
+
+    const { tabId } = this.tabCoordinator;
+    if (message.to && message.to !== tabId) return;
+
+    let keptLocalChanges = false;
+    let replacedLocalChanges = false;
+    Object.keys(message.stores).forEach(storeId => {
+      const store = this.trackedStores.get(storeId);
+      if (!store || !this.isStoreSynced(storeId)) return;
+
+      const { state, clock, base } = message.stores[storeId];
+      const local = this.getStoreClock(storeId);
+      const hasPendingChanges = this.pendingTabStores.has(storeId);
+      // Changes the sender hadn't seen when it made its own mean both tabs changed the store at once
+      const diverged = hasPendingChanges || (local.tabId === tabId && local.clock > base);
+
+      // Every tab picks the same winner, the highest version, except that changes still to be sent win as they get a higher one
+      const isNewer = clock > local.clock || (clock === local.clock && fromTabId > local.tabId);
+      if (hasPendingChanges || !isNewer) {
+        if (clock > local.clock) this.storeClocks.set(storeId, { clock, tabId: fromTabId });
+        keptLocalChanges = keptLocalChanges || diverged;
+        return;
+      }
+
+      this.storeClocks.set(storeId, { clock, tabId: fromTabId });
+      if (isDeepEqual(state, this.collectTabState([storeId])[storeId].state)) return;
+
+      const storeState = this.codec.decode(state);
+      this.isHydrating = true;
+      try {
+        store.$patch((currentState: StateTree) => {
+          Object.assign(currentState, storeState);
+        });
+      } finally {
+        this.isHydrating = false;
+      }
+      replacedLocalChanges = replacedLocalChanges || diverged;
+      this.markLocalChange(storeId, true);
+    });
+
+    // Changes from another tab aren't steps of this tab's undo history
+    this.refreshHistorySnapshot();
+
+    if (keptLocalChanges || replacedLocalChanges) {
+      this.logger.warn('Another tab changed the same stores at the same time as this tab');
+      this.notify({
+        title: 'Open in another tab',
+        message: `This tool is open in another tab which changed the same data at the same time. The changes made in ${replacedLocalChanges ? 'the other tab' : 'this tab'} were kept.`,
+        type: 'warning'
+      });
+    }
+  }
+
+  /**
+   * Reloads the saved state after another tab saved, marking this tab saved unless it has other changes
+   * @async
+   */
+  private async reloadAfterTabSave(): Promise<void> {
+    // A save in progress here merges in the other tab's save by itself
+    if (this.currentSave || this.loadError) return;
+
+    try {
+      const envelope = await this.loadStateFromFile();
+      if (!envelope) return;
+
+      // The other tab's save merged in collaborators' changes, which it didn't send to the other tabs
+      await this.applySavedState(envelope);
+      if (!this.dirtyStores.size) this.clearDebouncedSave();
+      if (this.remoteChanges) this.updateRemoteChanges(null);
+      this.logger.debug('Reloaded state saved by another tab');
+    } catch (error) {
+      this.logger.error('Failed to reload state saved by another tab:', error);
+    }
+  }
+
+  /**
+   * Starts watching for changes saved by collaborators, subscribing to storage if it can notify of changes and
+   * polling otherwise
+   * @async
+   */
+  private async setupWatch(): Promise<void> {
+    this.stopWatch();
+    if (this.config.watchMode === 'off') return;
+
+    // Delta saves only change the patch log, so watch it too
+    const fileNames = [await this.getStorageFileName()];
+    if (this.config.saveMode === 'delta') fileNames.push(await this.getPatchLogFileName());
+
+    const unwatchers = fileNames.map(fileName => this.storage.watch?.(fileName, () => this.checkRemoteChanges()) ?? null);
+    if (unwatchers.every(unwatch => unwatch !== null)) {
+      this.unwatchRemote = () => unwatchers.forEach(unwatch => unwatch?.());
+      this.logger.debug('Watching storage for remote changes');
+      return;
     }
+
+    unwatchers.forEach(unwatch => unwatch?.());
+    this.watchInterval = setInterval(() => this.checkRemoteChanges(), this.config.watchIntervalSeconds * 1000);
+    this.logger.debug(`Checking for remote changes every ${this.config.watchIntervalSeconds} seconds`);
   }
 
   /**
-   * Saves state to JSON file
-   * @async
-   * @param {StateTree} state - The state to save
-   * @returns {Promise<boolean>} Whether the save was successful
+   * Stops watching for changes saved by collaborators
    */
-  private async saveStateToFile(state: StateTree): Promise<boolean> {
-    if (this.saveInProgress) {
-      debugLog('Save already in progress, skipping');
-      return false;
+  private stopWatch(): void {
+    if (this.watchInterval !== null) {
+      clearInterval(this.watchInterval);
+      this.watchInterval = null;
     }
 
-    try {
-      this.saveInProgress = true;
-      this.updateSaveStatus(SAVE_STATUS.SAVING);
-
-      if (!this.vueInstance) throw new Error("Vue instance is null");
+    this.unwatchRemote?.();
+    this.unwatchRemote = null;
+  }
 
-      // Show loading progress
-      await this.vueInstance.$tera.uiProgress({ title: 'Saving tool data', backdrop: 'static' });
+  /**
+   * Re-reads the saved state, applying changes saved by collaborators if they don't conflict with unsaved local
+   * changes and `watchMode` is 'apply', and otherwise announcing them on the status store
+   * @async
+   */
+  private async checkRemoteChanges(): Promise<void> {
+    // Saves merge in remote changes by themselves
+    if (!this.initialized || this.loadError || this.currentSave || this.isCheckingRemote) return;
 
-      const fileName = await this.getStorageFileName();
+    this.isCheckingRemote = true;
+    try {
+      const envelope = await this.readSavedState(await this.getStorageFileName());
+      // Our own saves, or one which finished while reading, are already known
+      if (!envelope || this.currentSave || envelope.savedAt === this.baseSnapshot?.savedAt) return;
 
-      if (!fileName) {
-        throw new Error('No fileName returned');
+      const baseState = this.baseSnapshot?.state ?? {};
+      const changedStoreIds = Object.keys(envelope.state).filter(storeId => {
+        return this.isStoreSynced(storeId) && !isDeepEqual(envelope.state[storeId], baseState[storeId]);
+      });
+      if (!changedStoreIds.length) {
+        this.baseSnapshot = envelope;
+        return;
       }
 
-      const encodedFileName = btoa(fileName);
-
-      const stateToSave = mapSetToObject(state);
+      const conflicts = findConflicts(baseState, this.collectLocalChanges(baseState), envelope.state);
+      this.logger.debug(`Remote changes found in ${changedStoreIds.join(', ')}, ${conflicts.length} conflicting`);
 
-      await this.vueInstance.$tera.setProjectFileContents(encodedFileName, stateToSave, { format: 'json' });
-
-      // Update last saved state reference after successful save
-      this.updateSaveStatus(SAVE_STATUS.SAVED);
+      if (this.config.watchMode === 'apply' && !conflicts.length) {
+        await this.applyRemoteChanges(envelope);
+        return;
+      }
 
-      debugLog(`State saved to file: ${fileName}`);
-      return true;
+      const isNew = !this.remoteChanges;
+      this.updateRemoteChanges(envelope);
+      this.events.emit('remoteChange', { envelope, applied: false });
+      if (isNew) {
+        this.notify({ title: 'Changes available', message: 'Someone else saved changes to this tool\'s data.', type: 'info' });
+      }
     } catch (error) {
-      logError(error as Error, 'Failed to save state to file');
-      this.updateSaveStatus(SAVE_STATUS.UNSAVED);
-      return false;
+      this.logger.error('Failed to check for remote changes:', error);
     } finally {
-      this.saveInProgress = false;
-      // Hide loading progress
-      if (this.vueInstance) {
-        await this.vueInstance.$tera.uiProgress(false);
-      }
+      this.isCheckingRemote = false;
     }
   }
 
   /**
-   * Save all stores
+   * Collects the state of the stores changed since the last save or load, over the saved state of the others
+   * @param {StateTree} baseState - The state last saved or loaded
+   * @returns {StateTree} The saved state with local changes applied
+   */
+  private collectLocalChanges(baseState: StateTree): StateTree {
+    const currentState = this.collectDefaultScopeState();
+    const localState: StateTree = { ...baseState };
+    Object.keys(currentState).forEach(storeId => {
+      if (this.dirtyStores.has(storeId)) localState[storeId] = currentState[storeId];
+    });
+    return localState;
+  }
+
+  /**
+   * Merges changes saved by collaborators into the stores, resolving conflicts with unsaved local changes using the
+   * conflict strategy
    * @async
-   * @returns {Promise<boolean>} Whether all saves were successful
+   * @param {SaveEnvelope} [envelope] - The saved state, re-read from storage if omitted
+   * @returns {Promise<boolean>} Whether there were changes to apply
    */
-  private async saveAllStores(): Promise<boolean> {
-    // Collect all store states
-    const allState: StateTree = {};
+  private async applyRemoteChanges(envelope?: SaveEnvelope): Promise<boolean> {
+    if (!this.initialized || this.loadError) return false;
 
-    // Get all stores that have been tracked
-    const trackedStores = (window as any).__pinia?._s;
+    const remoteEnvelope = envelope ?? await this.readSavedState(await this.getStorageFileName());
+    if (!remoteEnvelope) return false;
 
-    if (!trackedStores) {
-      debugLog('No stores found to save');
-      return false;
-    }
+    await this.applySavedState(remoteEnvelope);
+    this.updateRemoteChanges(null);
 
-    // Merge all store states into one object
-    trackedStores.forEach((store: Store, id: string) => {
-      // Skip our internal sync status store
-      if (id === 'tera-file-sync-status') return;
+    this.logger.info('Applied remote changes');
+    this.events.emit('remoteChange', { envelope: remoteEnvelope, applied: true });
+    return true;
+  }
+
+  /**
+   * Merges saved state into the stores and makes it the base of later merges, resolving conflicts with unsaved local
+   * changes using the conflict strategy
+   * @async
+   * @param {SaveEnvelope} remoteEnvelope - The saved state
+   * @throws {Error} If a conflict cannot be resolved
+   */
+  private async applySavedState(remoteEnvelope: SaveEnvelope): Promise<void> {
+    const baseState = this.baseSnapshot?.state ?? {};
+    const currentState = this.collectDefaultScopeState();
+    const localState = this.collectLocalChanges(baseState);
+    const mergedState = await this.mergeRemoteChanges(remoteEnvelope, localState, baseState);
 
-      allState[id] = { ...store.$state };
+    // Stores never saved before aren't part of the local changes, so bring their remote state in here
+    const unchangedState: StateTree = {};
+    Object.keys(currentState).forEach(storeId => {
+      if (!(storeId in localState) && storeId in mergedState && !isDeepEqual(mergedState[storeId], currentState[storeId])) {
+        unchangedState[storeId] = mergedState[storeId];
+      }
     });
+    if (Object.keys(unchangedState).length) {
+      await this.initializeStores(this.createEnvelope(unchangedState));
+    }
+    this.baseSnapshot = remoteEnvelope;
 
-    debugLog('Saving state for all stores:', Object.keys(allState));
-    return await this.saveStateToFile(allState);
+    // Only local changes the collaborator didn't save are left unsaved
+    this.dirtyStores.forEach(storeId => {
+      if (isDeepEqual(mergedState[storeId], remoteEnvelope.state[storeId])) this.dirtyStores.delete(storeId);
+    });
+    this.updateSaveStatus(this.dirtyStores.size ? SAVE_STATUS.UNSAVED : SAVE_STATUS.SAVED);
   }
 
   /**
-   * Initialize all stores from loaded state
+   * Exports the state of the stores as a bundle
    * @async
-   * @param {StateTree} loadedState - The loaded state
+   * @param {ExportOptions} [options={}] - Which stores to export and how the bundle is written
+   * @returns {Promise<Blob>} The bundle as a JSON file
+   * @throws {Error} If the format is unknown, or a store has no state to export
    */
-  private async initializeStores(loadedState: StateTree): Promise<void> {
-    if (!loadedState) return;
-
-    // Get all stores that have been registered
-    const trackedStores = (window as any).__pinia?._s;
-
-    if (!trackedStores) {
-      debugLog('No stores found to initialize');
-      return;
+  private async exportState(options: ExportOptions = {}): Promise<Blob> {
+    const format = options.format ?? 'json';
+    if (!['json', 'pretty', 'gzip', 'deflate'].includes(format)) {
+      throw new Error('format must be "json", "pretty", "gzip" or "deflate"');
     }
 
-    // Update each store with its corresponding state
-    Object.entries(loadedState).forEach(([storeId, storeState]) => {
-      const store = trackedStores.get(storeId);
-      if (store) {
-        // Convert any serialized Maps/Sets back to their original form
-        const parsedState = objectToMapSet(storeState);
-        // Reset the store with the loaded state
-        store.$patch({ ...parsedState });
-        debugLog(`Initialized store ${storeId} with loaded state`);
+    const loadedEnvelope = this.getLoadedEnvelope();
+    const currentState = this.codec.encode(this.transformForSave(this.collectState() ?? {}));
+    const storeIds = options.stores ?? Array.from(new Set([...Object.keys(loadedEnvelope?.state ?? {}), ...Object.keys(currentState)]));
+
+    const state: StateTree = {};
+    const loadedVersions: Record<string, number> = {};
+    storeIds.forEach(storeId => {
+      if (storeId in currentState) {
+        state[storeId] = currentState[storeId];
+      } else if (loadedEnvelope && storeId in loadedEnvelope.state) {
+        // Stores not created yet keep the state, and schema, they were loaded with
+        state[storeId] = loadedEnvelope.state[storeId];
+        loadedVersions[storeId] = loadedEnvelope.schemaVersions[storeId] ?? 1;
+      } else {
+        throw new Error(`Store ${storeId} has no state to export`);
       }
     });
+
+    const envelope = this.createEnvelope(state);
+    delete envelope.history;
+    const bundle: StateBundle = {
+      ...envelope,
+      schemaVersions: { ...envelope.schemaVersions, ...loadedVersions },
+      bundle: STATE_BUNDLE_KIND,
+      keyPrefix: this.config.keyPrefix,
+      saveSlot: this.saveSlot
+    };
+
+    // Bundles are for sharing, so they are never encrypted
+    const content = format === 'json' || format === 'pretty' ? bundle : await this.packContent(bundle, ['state'], format, null);
+    this.logger.info(`Exported stores ${storeIds.join(', ')}`);
+    return new Blob([JSON.stringify(content, null, format === 'pretty' ? 2 : undefined)], { type: 'application/json' });
   }
 
   /**
-   * Sets up automatic saving on a timer
+   * Reads a bundle exported by `exportState`
+   * @async
+   * @param {Blob|string|Object} file - The bundle file, its text, or its parsed content
+   * @returns {Promise<SaveEnvelope>} The bundle, upgraded to the current save format
+   * @throws {ImportError} If the file is not a readable bundle exported by this tool
    */
-  private setupAutoSave(): void {
-    if (this.config.autoSaveIntervalMinutes <= 0) {
-      debugLog('Auto-save disabled');
-      return;
+  private async readBundle(file: Blob | string | object): Promise<SaveEnvelope> {
+    let content: any;
+    try {
+      const text = typeof Blob !== 'undefined' && file instanceof Blob ? await file.text() : file;
+      content = await this.unpackContent(typeof text === 'string' ? JSON.parse(text) : text);
+    } catch (error) {
+      throw new ImportError(`File is not a readable state bundle: ${(error as Error).message}`, error);
     }
 
-    // Clear any existing interval
-    if (this.autoSaveInterval !== null) {
-      window.clearInterval(this.autoSaveInterval);
+    if (!isSaveEnvelope(content) || (content as StateBundle).bundle !== STATE_BUNDLE_KIND) {
+      throw new ImportError('File is not a state bundle');
+    }
+    if ((content as StateBundle).keyPrefix !== this.config.keyPrefix) {
+      throw new ImportError(`File was exported by another tool, with key prefix "${(content as StateBundle).keyPrefix}"`);
     }
 
-    const intervalMs = this.config.autoSaveIntervalMinutes * 60 * 1000;
-    debugLog(`Setting up auto-save every ${this.config.autoSaveIntervalMinutes} minutes`);
-
-    this.autoSaveInterval = window.setInterval(() => {
-      if (this.saveStatus !== SAVE_STATUS.SAVED) {
-        debugLog('Auto-save triggered');
-        this.saveAllStores();
-      } else {
-        debugLog('Auto-save skipped - no changes detected');
-      }
-    }, intervalMs);
+    return this.upgradeEnvelope(normalizeEnvelope(content, this.logger));
   }
 
   /**
-   * Sets up change tracking for all Pinia stores
+   * Applies an exported bundle to the stores as an unsaved, undoable change, migrating and validating each store's
+   * state as it is loaded
+   * @async
+   * @param {Blob|string|Object} file - The bundle file, its text, or its parsed content
+   * @param {ImportOptions} [options={}] - Whether imported stores replace or are merged into their state
+   * @returns {Promise<string[]>} The ids of the stores applied, leaving out stores not created yet or refused
+   * @throws {ImportError} If the file is not a readable bundle exported by this tool
+   * @throws {Error} If saved state hasn't loaded, or the mode is unknown
    */
-  private setupStateChangeTracking(): void {
-    // Get Pinia instance
-    const pinia = (window as any).__pinia;
+  private async importState(file: Blob | string | object, options: ImportOptions = {}): Promise<string[]> {
+    const mode = options.mode ?? 'replace';
+    if (!['replace', 'merge'].includes(mode)) {
+      throw new Error('mode must be "replace" or "merge"');
+    }
 
-    if (!pinia) {
-      console.warn('Pinia instance not found for change tracking');
-      return;
+    // Loading would overwrite the import, and saving it is blocked after a failed load
+    if (!this.initialized || this.loadError) {
+      throw new Error('Can only import state once saved state has loaded');
     }
 
-    // Subscribe to store changes globally using Pinia's built-in mechanism
-    pinia.use(({ store }: { store: Store }) => {
-      // Skip our own status store to avoid circular updates
-      if (store.$id === 'tera-file-sync-status') return;
+    const envelope = await this.readBundle(file);
+    const storeIds = Object.keys(envelope.state).filter(storeId => this.trackedStores.has(storeId) && this.isStoreSynced(storeId));
+    const skippedIds = Object.keys(envelope.state).filter(storeId => !storeIds.includes(storeId));
+    if (skippedIds.length) this.logger.warn(`Not importing stores which aren't created or synced: ${skippedIds.join(', ')}`);
 
-      // Subscribe to state changes
-      store.$subscribe(() => {
-        if (this.saveStatus !== SAVE_STATUS.SAVING) {
-          this.updateSaveStatus(SAVE_STATUS.UNSAVED);
-        }
-      });
+    this.flushHistoryGroup();
+    this.recordHistory();
+
+    // Replaced stores start from their initial state, so state missing from the bundle isn't kept
+    const previousStates = new Map(storeIds.map(storeId => [storeId, this.cloneState(this.trackedStores.get(storeId)?.$state)]));
+    if (mode === 'replace') this.resetStores(storeIds);
+
+    const importedState: StateTree = {};
+    storeIds.forEach(storeId => {
+      importedState[storeId] = envelope.state[storeId];
     });
+    const importedIds = await this.initializeStores({ ...envelope, state: importedState });
+
+    // Stores whose imported state was refused keep their previous state
+    const refusedIds = storeIds.filter(storeId => !importedIds.includes(storeId));
+    if (mode === 'replace' && refusedIds.length) {
+      this.isHydrating = true;
+      try {
+        refusedIds.forEach(storeId => this.trackedStores.get(storeId)?.$patch(previousStates.get(storeId)));
+      } finally {
+        this.isHydrating = false;
+      }
+      this.refreshHistorySnapshot();
+    }
+
+    if (importedIds.length) this.markLocalChange();
+    this.logger.info(`Imported stores ${importedIds.join(', ')} using "${mode}"`);
+    return importedIds;
   }
 
   /**
-   * Creates the sync status store
+   * Gets the storage file name of the index of save slots
+   * @async
+   * @returns {Promise<string>} The storage file name
    */
-  private createSyncStatusStore(): void {
-    // Define a Pinia store for sync status
-    const useSyncStatusStore = defineStore('tera-file-sync-status', {
-      state: (): SyncStoreState => ({
-        saveStatus: SAVE_STATUS.SAVED
-      }),
-      actions: {
-        updateSaveStatus(status: SAVE_STATUS) {
-          this.saveStatus = status;
-        }
-      }
-    });
+  private async getSaveSlotIndexFileName(): Promise<string> {
+    return this.storage.resolveKey(await this.getSaveSlotIndexKey());
+  }
 
-    // Create the store instance
-    const pinia = (window as any).__pinia;
-    if (pinia) {
-      this.syncStatusStore = useSyncStatusStore(pinia);
-    } else {
-      console.warn('Pinia instance not found, sync status store not created');
-    }
+  /**
+   * Gets the storage key of the index of save slots
+   * @async
+   * @returns {Promise<string>} The storage key
+   */
+  private async getSaveSlotIndexKey(): Promise<string> {
+    const key = await this.getStorageKey(this.getDefaultScope(), DEFAULT_SAVE_SLOT);
+    return `${key}-slots`;
   }
 
   /**
-   * Initializes the plugin state and setup
+   * Lists the save slots
    * @async
+   * @returns {Promise<string[]>} The save slot names, starting with the default slot
    */
-  private async initialize(): Promise<void> {
-    if (!this.teraReady || !this.vueInstance || !this.vueInstance.$tera) {
-      debugLog('TERA not ready, skipping initialization');
-      return;
-    }
+  private async listSlots(): Promise<string[]> {
+    // Only saving to a new slot creates the index
+    const fileName = await this.findStorageLocation(await this.getSaveSlotIndexKey());
+    const index: SaveSlotIndex | null = fileName ? await this.storage.read(fileName) : null;
+    return [DEFAULT_SAVE_SLOT, ...(index?.slots ?? []).filter(slot => slot !== DEFAULT_SAVE_SLOT)];
+  }
 
-    // Show loading
-    if (typeof this.vueInstance.$tera.uiProgress !== 'function') {
-      console.warn('Not showing loading because uiProgress is not a function');
-    } else {
-      await this.vueInstance.$tera.uiProgress({ title: 'Loading tool data', backdrop: 'static' });
+  /**
+   * Adds a save slot to the index, if it isn't listed yet
+   * @async
+   * @param {string} name - Name of the save slot
+   */
+  private async recordSaveSlot(name: string): Promise<void> {
+    try {
+      const slots = await this.listSlots();
+      if (slots.includes(name)) return;
+
+      const index: SaveSlotIndex = { slots: [...slots.slice(1), name] };
+      await this.storage.write(await this.getSaveSlotIndexFileName(), index);
+    } catch (error) {
+      // The slot still works when it isn't listed
+      this.logger.error('Failed to record save slot:', error);
     }
+  }
+
+  /**
+   * Updates the save slot in the store
+   */
+  private updateSaveSlot(): void {
+    if (!this.syncStatusStore) return;
+
+    this.syncStatusStore.updateSaveSlot(this.saveSlot);
+  }
 
+  /**
+   * Resets the persisted state of synced stores to the state they were created with
+   * @param {string[]} [storeIds] - The stores to reset (defaults to every store)
+   */
+  private resetStores(storeIds: string[] = Array.from(this.trackedStores.keys())): void {
+    this.isHydrating = true;
     try {
-      // Create our sync status store
-      this.createSyncStatusStore();
+      storeIds.forEach(storeId => {
+        const store = this.trackedStores.get(storeId);
+        if (!store || !this.isStoreSynced(storeId) || !this.defaultStates.has(storeId)) return;
 
-      // Set up change tracking for all stores
-      this.setupStateChangeTracking();
+        // Replace rather than merge, so keys added since the store was created are removed
+        const storeConfig = this.getStoreConfig(storeId);
+        const defaults = filterStoreState(this.cloneState(this.defaultStates.get(storeId)), storeConfig);
+        const nextState = mergeScopedState(getUnpersistedState(store.$state, storeConfig), defaults);
+        store.$patch((currentState: StateTree) => replaceObjectState(currentState, nextState));
+      });
+    } finally {
+      this.isHydrating = false;
+    }
+  }
 
-      // Try to load from file
-      const fileData = await this.loadStateFromFile();
-      if (fileData) {
-        // Initialize all stores with the loaded data
-        await this.initializeStores(fileData);
-        debugLog('Stores initialized from file data');
-        this.updateSaveStatus(SAVE_STATUS.SAVED);
-      } else {
-        debugLog('No existing data found, using default store states');
-        this.updateSaveStatus(SAVE_STATUS.UNSAVED);
-      }
+  /**
+   * Saves the current slot, then loads another, replacing the stores' state with the slot's saved state or, if it has
+   * none, saving a copy of the current state to it
+   * @async
+   * @param {string} name - Name of the save slot
+   * @returns {Promise<boolean>} Whether the slot was switched and loaded
+   * @throws {Error} If the name is not a valid save slot name
+   */
+  private async switchSlot(name: string): Promise<boolean> {
+    if (!isSaveSlotName(name)) {
+      throw new Error('Save slot names must be non-empty strings of letters, digits, "-" and "_"');
+    }
+    if (name === this.saveSlot) return true;
 
-      this.initialized = true;
+    const previousSlot = this.saveSlot;
+    // Nothing is loaded to switch away from yet, so the slot is loaded once TERA is ready
+    if (!this.initialized && !this.loadError) {
+      this.saveSlot = name;
+      this.updateSaveSlot();
+      return true;
+    }
 
-      // Hide loading
-      if (typeof this.vueInstance.$tera.uiProgress === 'function') {
-        await this.vueInstance.$tera.uiProgress(false);
-      }
+    // Keep the work done in the current slot, unless it failed to load and can't be saved
+    if (!this.loadError && this.saveStatus !== SAVE_STATUS.SAVED && !(await this.saveAllStores())) {
+      this.logger.warn(`Not switching to save slot ${name}, as the current slot could not be saved`);
+      return false;
+    }
 
-      // Show initial alert about manual saving
-      this.showInitialAlert();
+    const currentState = this.loadError ? null : this.transformForSave(this.collectState() ?? {});
+    this.cleanup();
+    this.teraReady = true;
 
-      // Register hotkeys
-      this.registerHotkeys();
+    // Forget everything known about the files of the previous slot
+    this.baseSnapshot = null;
+    this.manifest = null;
+    this.scopeSnapshots.clear();
+    this.dirtyStores.clear();
+    this.pendingTabStores.clear();
+    this.storeClocks.clear();
+    this.hasJournalEntry = false;
+    this.updateJournaledChanges(null);
+    this.retryAttempt = 0;
+    this.loadError = null;
+    this.updateLoadError();
+    this.updateRemoteChanges(null);
+    this.undoStack = [];
+    this.redoStack = [];
+    this.updateHistoryStatus();
 
-      // Register the beforeunload listener
-      this.registerBeforeUnload();
+    this.saveSlot = name;
+    this.updateSaveSlot();
+    await this.recordSaveSlot(name);
+    this.logger.info(`Switching from save slot ${previousSlot} to ${name}`);
 
-      // Setup auto-save
-      this.setupAutoSave();
+    this.resetStores();
+    await this.initialize();
+    if (!this.initialized) return false;
 
-    } catch (error) {
-      logError(error as Error, 'State initialization failed');
+    // A new slot starts as a copy of the slot it was created from
+    if (!this.getLoadedEnvelope() && currentState) {
+      await this.initializeStores(this.createEnvelope(this.codec.encode(currentState)));
+      this.markLocalChange();
+      await this.saveAllStores();
     }
+
+    this.events.emit('slotSwitch', { from: previousSlot, to: name });
+    return true;
   }
 
   /**
@@ -786,9 +4343,20 @@ class TeraFileSyncPlugin {
       this.autoSaveInterval = null;
     }
 
+    // Cancel any pending retry of a failed save or debounced auto-save
+    this.clearRetry();
+    this.clearDebouncedSave();
+    this.flushHistoryGroup();
+
     // Unregister event listeners
     this.unregisterHotkeys();
     this.unregisterBeforeUnload();
+    this.unregisterOnline();
+    this.unregisterBlur();
+
+    // Leave the other tabs, handing autosave over to one of them
+    this.closeTabSync();
+    this.stopWatch();
 
     this.initialized = false;
     this.teraReady = false;
@@ -802,27 +4370,34 @@ class TeraFileSyncPlugin {
     // Return the Pinia plugin function
     return (context: PiniaPluginContext) => {
       // This is called for each store that is created
-      debugLog(`Plugin installed for store: ${context.store.$id}`);
-
-      // Expose API on each store
-      const store = context.store as Store & {
-        $teraFileSync?: {
-          setTeraReady: () => Promise<void>;
-          setVueInstance: (instance: VueInstance) => void;
-          saveState: () => Promise<boolean>;
-          getSaveStatus: () => SAVE_STATUS;
-          destroy: () => void;
-        }
-      };
+      this.logger.debug(`Plugin installed for store: ${context.store.$id}`);
+      this.pinia = context.pinia;
+
+      // Record any `teraSync` persistence options declared on defineStore
+      const teraSyncOption = context.options.teraSync;
+      if (teraSyncOption !== undefined) {
+        if (typeof teraSyncOption !== 'boolean') validateStoreConfig(context.store.$id, teraSyncOption);
+        this.storeOptions.set(context.store.$id, teraSyncOption);
+      }
+
+      // Sync the store unless a plugin installed before this one already does
+      this.claimStore(context.store.$id);
+
+      // Track the store for saving, and hydrate it if state has already been loaded
+      this.trackStore(context.store);
+
+      // Leave the stores another plugin syncs, and its status store, to that plugin
+      if (context.store.$teraFileSync && !this.ownsStore(context.store.$id)) return;
 
       // Add our API to the store
-      store.$teraFileSync = {
+      context.store.$teraFileSync = {
         /**
          * Sets the TERA ready state and triggers initial load
          * @async
          */
         setTeraReady: async (): Promise<void> => {
-          validateVueInstance(this.vueInstance);
+          // Custom storage adapters don't need the TERA file APIs
+          if (!this.config.storage) validateVueInstance(this.vueInstance);
           this.teraReady = true;
           await this.initialize();
         },
@@ -853,6 +4428,181 @@ class TeraFileSyncPlugin {
           return this.saveStatus;
         },
 
+        /**
+         * Restores the state from before the last group of changes
+         * @async
+         * @returns {Promise<boolean>} Whether there was anything to undo
+         */
+        undo: (): Promise<boolean> => {
+          return this.undo();
+        },
+
+        /**
+         * Re-applies the last undone group of changes
+         * @async
+         * @returns {Promise<boolean>} Whether there was anything to redo
+         */
+        redo: (): Promise<boolean> => {
+          return this.redo();
+        },
+
+        /**
+         * Lists the previous saves which can be restored
+         * @async
+         * @returns {Promise<RevisionInfo[]>} The revisions, newest first
+         */
+        listRevisions: (): Promise<RevisionInfo[]> => {
+          return this.listRevisions();
+        },
+
+        /**
+         * Gets the state saved in a revision without applying it
+         * @async
+         * @param {string} id - The revision id
+         * @returns {Promise<StateTree>} The state keyed by store id
+         */
+        previewRevision: (id: string): Promise<StateTree> => {
+          return this.previewRevision(id);
+        },
+
+        /**
+         * Restores the stores to a revision, leaving the change unsaved
+         * @async
+         * @param {string} id - The revision id
+         */
+        restoreRevision: (id: string): Promise<void> => {
+          return this.restoreRevision(id);
+        },
+
+        /**
+         * Switches saves to another encryption key and re-saves every store with it
+         * @async
+         * @param {string} keyId - Id of the new key
+         * @returns {Promise<boolean>} Whether the re-save was successful
+         */
+        rotateEncryptionKey: (keyId: string): Promise<boolean> => {
+          return this.rotateEncryptionKey(keyId);
+        },
+
+        /**
+         * Gets why saved state failed to load, while saving is blocked
+         * @returns {LoadError|null} The load error, or null if state loaded
+         */
+        getLoadError: (): LoadError | null => {
+          return this.loadError;
+        },
+
+        /**
+         * Tries loading saved state again after a failed load
+         * @async
+         * @returns {Promise<boolean>} Whether the state loaded
+         */
+        retryLoad: (): Promise<boolean> => {
+          return this.retryLoad();
+        },
+
+        /**
+         * Backs up the file which failed to load, then continues from default state
+         * @async
+         * @throws {Error} If no load failed, or the file can't be backed up
+         */
+        startFresh: (): Promise<void> => {
+          return this.startFresh();
+        },
+
+        /**
+         * Restores the changes from a save which failed before the tab closed
+         * @async
+         * @returns {Promise<boolean>} Whether there were journaled changes to restore
+         */
+        restoreJournaledChanges: (): Promise<boolean> => {
+          return this.restoreJournaledChanges();
+        },
+
+        /**
+         * Discards the changes from a save which failed before the tab closed
+         * @async
+         */
+        discardJournaledChanges: (): Promise<void> => {
+          return this.discardJournaledChanges();
+        },
+
+        /**
+         * Checks for changes saved by collaborators, applying or announcing them as configured
+         * @async
+         */
+        checkRemoteChanges: (): Promise<void> => {
+          return this.checkRemoteChanges();
+        },
+
+        /**
+         * Merges the latest changes saved by collaborators into the stores
+         * @async
+         * @returns {Promise<boolean>} Whether there were changes to apply
+         */
+        applyRemoteChanges: (): Promise<boolean> => {
+          return this.applyRemoteChanges();
+        },
+
+        /**
+         * Gets the name of the save slot being loaded and saved
+         * @returns {string} The save slot name
+         */
+        getSlot: (): string => {
+          return this.saveSlot;
+        },
+
+        /**
+         * Lists the names of the save slots
+         * @async
+         * @returns {Promise<string[]>} The save slot names, starting with the default slot
+         */
+        listSlots: (): Promise<string[]> => {
+          return this.listSlots();
+        },
+
+        /**
+         * Saves the current slot, then loads another
+         * @async
+         * @param {string} name - Name of the save slot
+         * @returns {Promise<boolean>} Whether the slot was switched and loaded
+         * @throws {Error} If the name is not a valid save slot name
+         */
+        switchSlot: (name: string): Promise<boolean> => {
+          return this.switchSlot(name);
+        },
+
+        /**
+         * Exports the state of the stores as a JSON bundle
+         * @async
+         * @param {ExportOptions} [options] - Which stores to export and how the bundle is written
+         * @returns {Promise<Blob>} The bundle as a JSON file
+         */
+        exportState: (options?: ExportOptions): Promise<Blob> => {
+          return this.exportState(options);
+        },
+
+        /**
+         * Applies a bundle from exportState as an unsaved, undoable change
+         * @async
+         * @param {Blob|string|Object} file - The bundle file, its text, or its parsed content
+         * @param {ImportOptions} [options] - Whether imported stores replace or are merged into their state
+         * @returns {Promise<string[]>} The ids of the stores applied
+         */
+        importState: (file: Blob | string | object, options?: ImportOptions): Promise<string[]> => {
+          return this.importState(file, options);
+        },
+
+        /**
+         * Registers a handler for a save or load lifecycle event
+         * @param {string} event - The event name
+         * @param {Function} handler - Called with the event payload
+         * @returns {Function} Removes the handler
+         */
+        on: <K extends keyof TeraSyncEvents>(event: K, handler: EventHandler<TeraSyncEvents[K]>): (() => void) => {
+          return this.events.on(event, handler);
+        },
+
         /**
          * Cleans up the plugin
          */
@@ -867,8 +4617,8 @@ class TeraFileSyncPlugin {
 /**
  * Creates a new TERA file sync plugin for Pinia
  * @param {string} keyPrefix - Prefix for storage keys and filenames
- * @param {boolean} [isSeparateStateForEachUser=false] - Whether to maintain separate state for each user
- * @param {Partial<TeraPluginConfig>} [options={}] - Additional plugin options
+ * @param {boolean} [isSeparateStateForEachUser=false] - Whether stores without a scope are kept separately for each user
+ * @param {Partial<TeraPluginConfig>} [options={}] - Additional plugin options, including per-store `stores` migrations and persisted paths
  * @returns {(context: PiniaPluginContext) => void} Plugin installation function
  * @throws {Error} If parameters are invalid
  */
@@ -885,10 +4635,50 @@ export const createTeraSyncPlugin = (
     keyPrefix,
     isSeparateStateForEachUser,
     autoSaveIntervalMinutes: options.autoSaveIntervalMinutes ?? DEFAULT_CONFIG.autoSaveIntervalMinutes,
+    autoSaveStrategy: options.autoSaveStrategy ?? DEFAULT_CONFIG.autoSaveStrategy,
+    autoSaveDebounceSeconds: options.autoSaveDebounceSeconds ?? DEFAULT_CONFIG.autoSaveDebounceSeconds,
+    autoSaveMaxWaitSeconds: options.autoSaveMaxWaitSeconds ?? DEFAULT_CONFIG.autoSaveMaxWaitSeconds,
+    saveOnBlur: options.saveOnBlur ?? DEFAULT_CONFIG.saveOnBlur,
     showInitialAlert: options.showInitialAlert ?? DEFAULT_CONFIG.showInitialAlert,
-    enableSaveHotkey: options.enableSaveHotkey ?? DEFAULT_CONFIG.enableSaveHotkey
+    enableSaveHotkey: options.enableSaveHotkey ?? DEFAULT_CONFIG.enableSaveHotkey,
+    stores: options.stores ?? DEFAULT_CONFIG.stores,
+    include: options.include ?? DEFAULT_CONFIG.include,
+    exclude: options.exclude ?? DEFAULT_CONFIG.exclude,
+    conflictStrategy: options.conflictStrategy ?? DEFAULT_CONFIG.conflictStrategy,
+    storage: options.storage ?? DEFAULT_CONFIG.storage,
+    enableOfflineJournal: options.enableOfflineJournal ?? DEFAULT_CONFIG.enableOfflineJournal,
+    journalStorage: options.journalStorage ?? DEFAULT_CONFIG.journalStorage,
+    sessionStorage: options.sessionStorage ?? DEFAULT_CONFIG.sessionStorage,
+    retryBaseDelaySeconds: options.retryBaseDelaySeconds ?? DEFAULT_CONFIG.retryBaseDelaySeconds,
+    retryMaxDelaySeconds: options.retryMaxDelaySeconds ?? DEFAULT_CONFIG.retryMaxDelaySeconds,
+    codec: options.codec ?? DEFAULT_CONFIG.codec,
+    enableHistory: options.enableHistory ?? DEFAULT_CONFIG.enableHistory,
+    historyLimit: options.historyLimit ?? DEFAULT_CONFIG.historyLimit,
+    historyGroupWindowMs: options.historyGroupWindowMs ?? DEFAULT_CONFIG.historyGroupWindowMs,
+    persistHistoryLimit: options.persistHistoryLimit ?? DEFAULT_CONFIG.persistHistoryLimit,
+    revisionCount: options.revisionCount ?? DEFAULT_CONFIG.revisionCount,
+    revisionMaxAgeDays: options.revisionMaxAgeDays ?? DEFAULT_CONFIG.revisionMaxAgeDays,
+    layout: options.layout ?? DEFAULT_CONFIG.layout,
+    lazyLoadShards: options.lazyLoadShards ?? DEFAULT_CONFIG.lazyLoadShards,
+    saveMode: options.saveMode ?? DEFAULT_CONFIG.saveMode,
+    compactAfterPatches: options.compactAfterPatches ?? DEFAULT_CONFIG.compactAfterPatches,
+    compression: options.compression ?? DEFAULT_CONFIG.compression,
+    maxPayloadBytes: options.maxPayloadBytes ?? DEFAULT_CONFIG.maxPayloadBytes,
+    encryption: options.encryption ?? DEFAULT_CONFIG.encryption,
+    beforeSave: options.beforeSave ?? DEFAULT_CONFIG.beforeSave,
+    afterLoad: options.afterLoad ?? DEFAULT_CONFIG.afterLoad,
+    logLevel: options.logLevel ?? DEFAULT_CONFIG.logLevel,
+    redactLogs: options.redactLogs ?? DEFAULT_CONFIG.redactLogs,
+    notifier: options.notifier ?? DEFAULT_CONFIG.notifier,
+    enableCrossTabSync: options.enableCrossTabSync ?? DEFAULT_CONFIG.enableCrossTabSync,
+    watchMode: options.watchMode ?? DEFAULT_CONFIG.watchMode,
+    watchIntervalSeconds: options.watchIntervalSeconds ?? DEFAULT_CONFIG.watchIntervalSeconds,
+    saveSlot: options.saveSlot ?? DEFAULT_CONFIG.saveSlot
   };
 
+  // Status stores looked up without a key prefix belong to the first plugin
+  if (defaultKeyPrefix === null) defaultKeyPrefix = keyPrefix;
+
   const plugin = new TeraFileSyncPlugin(config);
   return plugin.createPlugin();
 };
\ No newline at end of file
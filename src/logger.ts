@@ -0,0 +1,88 @@
+/**
+ * @typedef {('silent'|'error'|'warn'|'info'|'debug')} LogLevel
+ * @description The most detailed level of messages logged, or 'silent' to log nothing
+ */
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug';
+
+/**
+ * @interface Logger
+ * @description Logs messages with details at different levels
+ */
+export interface Logger {
+  error: (message: string, ...details: any[]) => void;
+  warn: (message: string, ...details: any[]) => void;
+  info: (message: string, ...details: any[]) => void;
+  debug: (message: string, ...details: any[]) => void;
+}
+
+/**
+ * @interface LoggerOptions
+ * @description Options for creating a logger
+ */
+export interface LoggerOptions {
+  /** The most detailed level logged (defaults to 'warn') */
+  level?: LogLevel;
+  /** Whether object details, such as state payloads, are replaced by a summary (defaults to true) */
+  redact?: boolean;
+  /** Where messages are written (defaults to the console) */
+  sink?: Pick<Console, 'error' | 'warn' | 'info' | 'debug'>;
+}
+
+/**
+ * @constant {LogLevel[]}
+ * @description Log levels from least to most detailed
+ */
+const LOG_LEVELS: LogLevel[] = ['silent', 'error', 'warn', 'info', 'debug'];
+
+/**
+ * @constant {string}
+ * @description Prefix of every logged message
+ */
+const LOG_PREFIX = '[TERA File Sync]';
+
+/**
+ * Checks whether a value is a valid log level
+ * @param {any} level - The value to check
+ * @returns {boolean} Whether the value is a log level
+ */
+export const isLogLevel = (level: any): level is LogLevel => LOG_LEVELS.includes(level);
+
+/**
+ * Replaces a detail which may hold state with a summary of its shape
+ * @param {any} detail - The logged detail
+ * @returns {any} The detail, or its summary if it is an object
+ */
+const redactDetail = (detail: any): any => {
+  // Errors describe what went wrong rather than holding state, so keep them readable
+  if (!detail || typeof detail !== 'object' || detail instanceof Error) return detail;
+  if (Array.isArray(detail)) return `[Array(${detail.length}) redacted]`;
+  return `[Object with ${Object.keys(detail).length} keys redacted]`;
+};
+
+/**
+ * Creates a logger which drops messages more detailed than its level
+ * @param {LoggerOptions} [options={}] - The logger options
+ * @returns {Logger} A new logger
+ */
+export const createLogger = (options: LoggerOptions = {}): Logger => {
+  const maxLevel = LOG_LEVELS.indexOf(options.level ?? 'warn');
+  const redact = options.redact ?? true;
+  const sink = options.sink ?? console;
+
+  /**
+   * Creates the logging function of one level
+   * @param {LogLevel} level - The level logged
+   * @returns {Function} The logging function
+   */
+  const createLevel = (level: Exclude<LogLevel, 'silent'>) => (message: string, ...details: any[]): void => {
+    if (LOG_LEVELS.indexOf(level) > maxLevel) return;
+    sink[level](`${LOG_PREFIX} ${message}`, ...(redact ? details.map(redactDetail) : details));
+  };
+
+  return {
+    error: createLevel('error'),
+    warn: createLevel('warn'),
+    info: createLevel('info'),
+    debug: createLevel('debug')
+  };
+};
@@ -0,0 +1,162 @@
+import { StateTree } from 'pinia';
+
+/**
+ * @interface SyncConflict
+ * @description A store key changed both locally and remotely since the last load or save
+ */
+export interface SyncConflict {
+  /** Id of the store containing the conflicting key */
+  storeId: string;
+  /** Top-level state key which conflicts */
+  key: string;
+  /** Serialized value when the file was last loaded or saved */
+  base: any;
+  /** Serialized local value */
+  local: any;
+  /** Serialized value currently in the file */
+  remote: any;
+}
+
+/**
+ * @typedef {('local'|'remote'|{value: any})} ConflictResolution
+ * @description Which side of a conflict to keep, or an explicit merged value
+ */
+export type ConflictResolution = 'local' | 'remote' | { value: any };
+
+/**
+ * @typedef {Function} ConflictResolver
+ * @description Callback deciding the outcome of a single conflict, may prompt the user
+ */
+export type ConflictResolver = (conflict: SyncConflict) => ConflictResolution | Promise<ConflictResolution>;
+
+/**
+ * @typedef {('prefer-local'|'prefer-remote'|ConflictResolver)} ConflictStrategy
+ * @description How conflicting keys are resolved when merging
+ */
+export type ConflictStrategy = 'prefer-local' | 'prefer-remote' | ConflictResolver;
+
+/**
+ * Deeply compares two serialized values
+ * @param {any} a - The first value
+ * @param {any} b - The second value
+ * @returns {boolean} Whether both values are structurally equal
+ */
+export const isDeepEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+
+  return keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && isDeepEqual(a[key], b[key]));
+};
+
+/**
+ * Resolves a single conflict using the configured strategy
+ * @async
+ * @param {SyncConflict} conflict - The conflict to resolve
+ * @param {ConflictStrategy} strategy - The conflict strategy
+ * @returns {Promise<any>} The value to keep
+ */
+const resolveConflict = async (conflict: SyncConflict, strategy: ConflictStrategy): Promise<any> => {
+  if (strategy === 'prefer-local') return conflict.local;
+  if (strategy === 'prefer-remote') return conflict.remote;
+
+  const resolution = await strategy(conflict);
+  if (resolution === 'local') return conflict.local;
+  if (resolution === 'remote') return conflict.remote;
+  if (resolution && typeof resolution === 'object' && 'value' in resolution) return resolution.value;
+
+  throw new Error(`Invalid conflict resolution for ${conflict.storeId}.${conflict.key}`);
+};
+
+/**
+ * Finds the keys of each store that changed on both sides since the base snapshot
+ * @param {StateTree} base - Serialized state when last loaded or saved
+ * @param {StateTree} local - Serialized local state
+ * @param {StateTree} remote - Serialized state currently in the file
+ * @returns {SyncConflict[]} The conflicting keys
+ */
+export const findConflicts = (base: StateTree, local: StateTree, remote: StateTree): SyncConflict[] => {
+  const conflicts: SyncConflict[] = [];
+
+  Object.keys(local).forEach(storeId => {
+    const baseStore = base[storeId] ?? {};
+    const localStore = local[storeId] ?? {};
+    const remoteStore = remote[storeId] ?? {};
+    const keys = new Set([...Object.keys(localStore), ...Object.keys(remoteStore)]);
+
+    keys.forEach(key => {
+      const localChanged = !isDeepEqual(localStore[key], baseStore[key]);
+      const remoteChanged = !isDeepEqual(remoteStore[key], baseStore[key]);
+      if (localChanged && remoteChanged && !isDeepEqual(localStore[key], remoteStore[key])) {
+        conflicts.push({
+          storeId,
+          key,
+          base: baseStore[key],
+          local: localStore[key],
+          remote: remoteStore[key]
+        });
+      }
+    });
+  });
+
+  return conflicts;
+};
+
+/**
+ * Performs a per-store, per-key three-way merge of serialized state
+ * @async
+ * @param {StateTree} base - Serialized state when last loaded or saved
+ * @param {StateTree} local - Serialized local state
+ * @param {StateTree} remote - Serialized state currently in the file
+ * @param {ConflictStrategy} strategy - How to resolve keys changed on both sides
+ * @param {Function} [onConflicts] - Called with all conflicts before any are resolved
+ * @returns {Promise<StateTree>} The merged state
+ */
+export const mergeStates = async (
+  base: StateTree,
+  local: StateTree,
+  remote: StateTree,
+  strategy: ConflictStrategy,
+  onConflicts?: (conflicts: SyncConflict[]) => void | Promise<void>
+): Promise<StateTree> => {
+  const merged: StateTree = {};
+  const conflicts = findConflicts(base, local, remote);
+
+  // Stores only present remotely (e.g. opted out locally) are carried over untouched
+  Object.keys(remote).forEach(storeId => {
+    if (!(storeId in local)) merged[storeId] = remote[storeId];
+  });
+
+  Object.keys(local).forEach(storeId => {
+    const baseStore = base[storeId] ?? {};
+    const localStore = local[storeId] ?? {};
+    const remoteStore = remote[storeId] ?? {};
+    const mergedStore: Record<string, any> = {};
+
+    new Set([...Object.keys(localStore), ...Object.keys(remoteStore)]).forEach(key => {
+      // Keep whichever side changed, preferring local when only it changed
+      const remoteChanged = !isDeepEqual(remoteStore[key], baseStore[key]);
+      const value = remoteChanged && isDeepEqual(localStore[key], baseStore[key]) ? remoteStore[key] : localStore[key];
+      if (value !== undefined) mergedStore[key] = value;
+    });
+
+    merged[storeId] = mergedStore;
+  });
+
+  if (conflicts.length && onConflicts) await onConflicts(conflicts);
+
+  for (const conflict of conflicts) {
+    const value = await resolveConflict(conflict, strategy);
+    if (value === undefined) {
+      delete merged[conflict.storeId][conflict.key];
+    } else {
+      merged[conflict.storeId][conflict.key] = value;
+    }
+  }
+
+  return merged;
+};
@@ -0,0 +1,74 @@
+import { TeraInstance } from './storage';
+
+/**
+ * @typedef {('info'|'success'|'warning'|'error')} NotificationType
+ * @description How serious a notification is
+ */
+export type NotificationType = 'info' | 'success' | 'warning' | 'error';
+
+/**
+ * @interface Notification
+ * @description A message shown to the user
+ */
+export interface Notification {
+  title: string;
+  message: string;
+  type: NotificationType;
+}
+
+/**
+ * @interface Notifier
+ * @description Shows notifications to the user. `notify` returns straight away, but a notifier may show a dialog the user
+ * has to close before carrying on
+ */
+export interface Notifier {
+  notify: (notification: Notification) => void;
+}
+
+/**
+ * @interface NotifyOptions
+ * @description Options of a `$notify` call, as taken by Element UI style notification helpers
+ */
+export interface NotifyOptions {
+  title: string;
+  message: string;
+  type: string;
+  duration: number;
+  showClose: boolean;
+}
+
+/**
+ * Creates a notifier using a `$notify` function
+ * @param {Function} getNotify - Returns the `$notify` function, or null if it is unavailable
+ * @returns {Notifier} A notifier which does nothing while `$notify` is unavailable
+ */
+export const createNotifyNotifier = (getNotify: () => ((options: NotifyOptions) => void) | null | undefined): Notifier => ({
+  notify: ({ title, message, type }: Notification): void => {
+    const notify = getNotify();
+    // Keep errors open until they are closed, as they usually need acting on
+    notify?.({ title, message, type, duration: type === 'error' ? 0 : 10000, showClose: true });
+  }
+});
+
+/**
+ * Creates a notifier using TERA's `uiAlert` dialog, which is modal as TERA has no other way to show messages, so the
+ * page can't be used until it is closed
+ * @param {Function} getTera - Returns the TERA instance, or null if it is unavailable
+ * @returns {Notifier} A notifier which does nothing while `uiAlert` is unavailable
+ */
+export const createTeraNotifier = (getTera: () => TeraInstance | null | undefined): Notifier => ({
+  notify: ({ title, message }: Notification): void => {
+    const tera = getTera();
+    if (typeof tera?.uiAlert !== 'function') return;
+    // Don't wait for the dialog to be closed
+    tera.uiAlert(message, { title }).catch(() => undefined);
+  }
+});
+
+/**
+ * Creates a notifier which shows nothing, for apps which show their own messages from plugin events
+ * @returns {Notifier} A notifier which does nothing
+ */
+export const createNoopNotifier = (): Notifier => ({
+  notify: (): void => undefined
+});
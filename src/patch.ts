@@ -0,0 +1,189 @@
+import { isDeepEqual } from './merge';
+
+/**
+ * @interface PatchOperation
+ * @description A single RFC 6902 JSON Patch operation
+ */
+export interface PatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  /** JSON Pointer to the target location */
+  path: string;
+  /** Value for add, replace and test operations */
+  value?: any;
+  /** JSON Pointer to the source location for move and copy operations */
+  from?: string;
+}
+
+/**
+ * Escapes a key for use as a JSON Pointer segment
+ * @param {string} key - The key to escape
+ * @returns {string} The escaped segment
+ */
+const escapeSegment = (key: string): string => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Splits a JSON Pointer into unescaped segments
+ * @param {string} pointer - The JSON Pointer
+ * @returns {string[]} The pointer segments
+ * @throws {Error} If the pointer is invalid
+ */
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer: ${pointer}`);
+  }
+  return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+/**
+ * Deeply copies a JSON value
+ * @param {any} value - The value to copy
+ * @returns {any} The copy
+ */
+const cloneJson = (value: any): any => value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+/**
+ * Creates the JSON Patch operations which turn one JSON document into another
+ * @param {any} from - The original document
+ * @param {any} to - The updated document
+ * @param {string} [path=''] - JSON Pointer of the documents within their parents
+ * @returns {PatchOperation[]} The operations, empty when the documents are equal
+ */
+export const createPatch = (from: any, to: any, path = ''): PatchOperation[] => {
+  if (isDeepEqual(from, to)) return [];
+
+  const bothObjects = !!from && !!to && typeof from === 'object' && typeof to === 'object';
+  if (!bothObjects || Array.isArray(from) !== Array.isArray(to)) {
+    return [{ op: 'replace', path, value: cloneJson(to) }];
+  }
+
+  if (Array.isArray(from)) {
+    // Diff the shared items by index, then add or remove items at the end
+    const operations: PatchOperation[] = [];
+    for (let index = 0; index < Math.min(from.length, to.length); index++) {
+      operations.push(...createPatch(from[index], to[index], `${path}/${index}`));
+    }
+    for (let index = from.length; index < to.length; index++) {
+      operations.push({ op: 'add', path: `${path}/${index}`, value: cloneJson(to[index]) });
+    }
+    for (let index = from.length - 1; index >= to.length; index--) {
+      operations.push({ op: 'remove', path: `${path}/${index}` });
+    }
+    return operations;
+  }
+
+  const operations: PatchOperation[] = [];
+  Object.keys(from).forEach(key => {
+    if (!(key in to)) operations.push({ op: 'remove', path: `${path}/${escapeSegment(key)}` });
+  });
+  Object.keys(to).forEach(key => {
+    const keyPath = `${path}/${escapeSegment(key)}`;
+    if (!(key in from)) {
+      operations.push({ op: 'add', path: keyPath, value: cloneJson(to[key]) });
+    } else {
+      operations.push(...createPatch(from[key], to[key], keyPath));
+    }
+  });
+  return operations;
+};
+
+/**
+ * Applies JSON Patch operations to a copy of a document
+ * @param {any} document - The document to patch, left untouched
+ * @param {PatchOperation[]} operations - The operations to apply in order
+ * @returns {any} The patched document
+ * @throws {Error} If an operation cannot be applied
+ */
+export const applyPatch = (document: any, operations: PatchOperation[]): any => {
+  let result = cloneJson(document);
+
+  /**
+   * Finds the parent container and final key of a pointer
+   * @param {string} pointer - The JSON Pointer
+   * @returns {[any, string]} The parent container and key
+   */
+  const resolveParent = (pointer: string): [any, string] => {
+    const segments = parsePointer(pointer);
+    const key = segments.pop() as string;
+    const parent = segments.reduce((target, segment) => {
+      if (!target || typeof target !== 'object' || !(segment in target)) {
+        throw new Error(`Path not found: ${pointer}`);
+      }
+      return target[segment];
+    }, result);
+
+    if (!parent || typeof parent !== 'object') {
+      throw new Error(`Path not found: ${pointer}`);
+    }
+    return [parent, key];
+  };
+
+  const getValue = (pointer: string): any => {
+    if (pointer === '') return result;
+    const [parent, key] = resolveParent(pointer);
+    if (!(key in parent)) {
+      throw new Error(`Path not found: ${pointer}`);
+    }
+    return parent[key];
+  };
+
+  const removeValue = (pointer: string): any => {
+    const [parent, key] = resolveParent(pointer);
+    if (!(key in parent)) {
+      throw new Error(`Path not found: ${pointer}`);
+    }
+    const value = parent[key];
+    if (Array.isArray(parent)) {
+      parent.splice(Number(key), 1);
+    } else {
+      delete parent[key];
+    }
+    return value;
+  };
+
+  const setValue = (pointer: string, value: any, insert: boolean): void => {
+    if (pointer === '') {
+      result = value;
+      return;
+    }
+
+    const [parent, key] = resolveParent(pointer);
+    if (Array.isArray(parent) && insert) {
+      parent.splice(key === '-' ? parent.length : Number(key), 0, value);
+    } else {
+      if (!insert && !(key in parent)) {
+        throw new Error(`Path not found: ${pointer}`);
+      }
+      parent[key] = value;
+    }
+  };
+
+  operations.forEach(operation => {
+    switch (operation.op) {
+      case 'add':
+        setValue(operation.path, cloneJson(operation.value), true);
+        break;
+      case 'remove':
+        removeValue(operation.path);
+        break;
+      case 'replace':
+        setValue(operation.path, cloneJson(operation.value), false);
+        break;
+      case 'move':
+        setValue(operation.path, removeValue(operation.from as string), true);
+        break;
+      case 'copy':
+        setValue(operation.path, cloneJson(getValue(operation.from as string)), true);
+        break;
+      case 'test':
+        if (!isDeepEqual(getValue(operation.path), operation.value)) {
+          throw new Error(`Test failed at ${operation.path}`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown patch operation: ${(operation as PatchOperation).op}`);
+    }
+  });
+
+  return result;
+};
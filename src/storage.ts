@@ -0,0 +1,400 @@
+import { nanoid } from 'nanoid';
+import { createLogger, Logger } from './logger';
+
+/**
+ * @interface TeraInstance
+ * @description Interface for TERA Vue instance properties
+ */
+export interface TeraInstance {
+  getUser: () => Promise<{ id: string }>;
+  getProjectFileContents: (fileName: string, options: { format: string }) => Promise<any>;
+  setProjectFileContents: (fileName: string, content: any, options: { format: string }) => Promise<void>;
+  uiProgress: (options: any) => Promise<void>;
+  uiAlert?: (text: string, options?: { title?: string }) => Promise<void>;
+  createProjectFile?: (fileName: string) => Promise<void>;
+  setProjectState?: (path: string, value: any) => Promise<void>;
+  onProjectFileChange?: (fileName: string, callback: () => void) => () => void;
+  project?: {
+    id?: string;
+    temp?: Record<string, any>;
+  };
+}
+
+/**
+ * @interface StorageAdapter
+ * @description Backend used to read and write saved state
+ */
+export interface StorageAdapter {
+  /** Resolves a storage key to the location its data lives at, creating the location if needed */
+  resolveKey: (key: string) => Promise<string>;
+  /** Looks up the location of a storage key without creating anything, resolving null if it has none yet */
+  findKey?: (key: string) => Promise<string | null>;
+  /** Whether data exists at a location */
+  exists: (location: string) => Promise<boolean>;
+  /** Creates an empty entry at a location */
+  create: (location: string) => Promise<void>;
+  /** Reads the content at a location, resolving null if there is none */
+  read: (location: string) => Promise<any | null>;
+  /** Writes content to a location */
+  write: (location: string, content: any) => Promise<void>;
+  /** Gets the id of the current user, required when keeping separate state for each user */
+  getUserId?: () => Promise<string>;
+  /** Calls back when the content at a location changes, returning a function which stops watching, or null if it can't be watched */
+  watch?: (location: string, onChange: () => void) => (() => void) | null;
+}
+
+/**
+ * @interface LocalStorageAdapterOptions
+ * @description Options for the localStorage and in-memory adapters
+ */
+export interface LocalStorageAdapterOptions {
+  /** Prefix for every storage location */
+  prefix?: string;
+  /** User id to report when keeping separate state for each user */
+  userId?: string;
+}
+
+/**
+ * @interface IndexedDbAdapterOptions
+ * @description Options for the IndexedDB adapter
+ */
+export interface IndexedDbAdapterOptions extends LocalStorageAdapterOptions {
+  /** Name of the IndexedDB database */
+  databaseName?: string;
+  /** Name of the object store within the database */
+  storeName?: string;
+}
+
+/**
+ * Checks whether an error from TERA means the file does not exist
+ * @param {any} error - The thrown error
+ * @returns {boolean} Whether the error is a not found error
+ */
+const isNotFoundError = (error: any): boolean => {
+  return !!(error as Error)?.message && (error as Error).message.includes('not found');
+};
+
+/**
+ * Gets the user id configured for a local adapter
+ * @param {LocalStorageAdapterOptions} options - The adapter options
+ * @returns {Promise<string>} The configured user id
+ * @throws {Error} If no user id was configured
+ */
+const getConfiguredUserId = async (options: LocalStorageAdapterOptions): Promise<string> => {
+  if (!options.userId) throw new Error('userId option is required for separate state for each user');
+  return options.userId;
+};
+
+/**
+ * Creates the default adapter storing state as TERA project files, tracked in `project.temp`
+ * @param {Function} getTera - Returns the current TERA instance, if any
+ * @param {string} keyPrefix - Prefix for generated file names
+ * @param {Logger} [logger] - Logger for problems with the TERA project (defaults to warnings on the console)
+ * @returns {StorageAdapter} The TERA storage adapter
+ */
+export const createTeraStorageAdapter = (
+  getTera: () => TeraInstance | null,
+  keyPrefix: string,
+  logger: Logger = createLogger()
+): StorageAdapter => {
+  /**
+   * Gets the TERA instance, throwing if it is unavailable
+   * @returns {TeraInstance} The TERA instance
+   */
+  const requireTera = (): TeraInstance => {
+    const tera = getTera();
+    if (!tera) throw new Error('TERA instance is not available');
+    return tera;
+  };
+
+  /** A TERA instance whose project can hold storage keys */
+  type ProjectTeraInstance = TeraInstance & { project: { id: string; temp: Record<string, any> } };
+
+  /**
+   * Gets the TERA instance, throwing if its project can't hold storage keys
+   * @returns {TeraInstance} The TERA instance, with a project id and temp state
+   */
+  const requireProject = (): ProjectTeraInstance => {
+    const tera = getTera();
+    if (!tera || !tera.project) {
+      logger.warn("Error getting fileStorageName: vueInstance, $tera or $tera.project missing:", tera);
+      throw new Error("Missing vueInstance.$tera.project");
+    }
+
+    if (!tera.project.temp) {
+      logger.warn("Error getting fileStorageName: $tera.project.temp missing:", tera.project);
+      logger.warn("Creating $tera.project.temp...");
+      // Create temp object if it doesn't exist
+      tera.project.temp = {};
+    }
+
+    if (!tera.project.id) {
+      logger.warn("Error getting fileStorageName: $tera.project.id missing:", tera.project);
+      throw new Error("Missing vueInstance.$tera.project.id");
+    }
+
+    return tera as ProjectTeraInstance;
+  };
+
+  const adapter: StorageAdapter = {
+    resolveKey: async (key: string): Promise<string> => {
+      const tera = requireProject();
+      let fileStorageName = tera.project.temp[key];
+
+      if (!fileStorageName) {
+        fileStorageName = `data-${keyPrefix}-${nanoid()}.json`;
+        await adapter.create(fileStorageName);
+
+        if (typeof tera.setProjectState === 'function') {
+          await tera.setProjectState(`temp.${key}`, fileStorageName);
+        } else {
+          throw new Error("setProjectState function not available");
+        }
+      }
+
+      if (typeof fileStorageName !== 'string') {
+        throw new Error(`fileStorageName is not a string: ${fileStorageName}`);
+      }
+
+      return `${tera.project.id}/${fileStorageName}`;
+    },
+
+    findKey: async (key: string): Promise<string | null> => {
+      const tera = requireProject();
+      const fileStorageName = tera.project.temp[key];
+      // Only resolveKey creates the file, so reading a key never written adds nothing to the project
+      return typeof fileStorageName === 'string' && fileStorageName ? `${tera.project.id}/${fileStorageName}` : null;
+    },
+
+    exists: async (location: string): Promise<boolean> => {
+      try {
+        return !!(await adapter.read(location));
+      } catch (error) {
+        return false;
+      }
+    },
+
+    create: async (location: string): Promise<void> => {
+      const tera = requireTera();
+      if (typeof tera.createProjectFile !== 'function') {
+        throw new Error("createProjectFile function not available");
+      }
+      // Project files are created by name, relative to the project
+      await tera.createProjectFile(location.split('/').pop() as string);
+    },
+
+    read: async (location: string): Promise<any | null> => {
+      try {
+        const content = await requireTera().getProjectFileContents(btoa(location), { format: 'json' });
+        return content || null;
+      } catch (error) {
+        if (isNotFoundError(error)) return null;
+        throw error;
+      }
+    },
+
+    write: async (location: string, content: any): Promise<void> => {
+      await requireTera().setProjectFileContents(btoa(location), content, { format: 'json' });
+    },
+
+    getUserId: async (): Promise<string> => {
+      const user = await requireTera().getUser();
+      return user.id;
+    },
+
+    watch: (location: string, onChange: () => void): (() => void) | null => {
+      const tera = getTera();
+      if (!tera || typeof tera.onProjectFileChange !== 'function') return null;
+      return tera.onProjectFileChange(btoa(location), onChange);
+    }
+  };
+
+  return adapter;
+};
+
+/**
+ * Creates an adapter storing state as JSON in one of the browser's web storage areas
+ * @param {string} area - The window property holding the storage area
+ * @param {LocalStorageAdapterOptions} options - Adapter options
+ * @param {string} defaultPrefix - Prefix used when the options don't set one
+ * @returns {StorageAdapter} The web storage adapter
+ */
+const createWebStorageAdapter = (
+  area: 'localStorage' | 'sessionStorage',
+  options: LocalStorageAdapterOptions,
+  defaultPrefix: string
+): StorageAdapter => {
+  const prefix = options.prefix ?? defaultPrefix;
+
+  /**
+   * Gets the storage area, throwing if it is unavailable
+   * @returns {Storage} The storage area
+   */
+  const getStorage = (): Storage => {
+    if (typeof window === 'undefined' || !window[area]) {
+      throw new Error(`${area} is not available`);
+    }
+    return window[area];
+  };
+
+  return {
+    resolveKey: async (key: string): Promise<string> => `${prefix}${key}`,
+    findKey: async (key: string): Promise<string | null> => `${prefix}${key}`,
+    exists: async (location: string): Promise<boolean> => getStorage().getItem(location) !== null,
+    create: async (location: string): Promise<void> => getStorage().setItem(location, 'null'),
+    read: async (location: string): Promise<any | null> => {
+      const content = getStorage().getItem(location);
+      return content === null ? null : JSON.parse(content);
+    },
+    write: async (location: string, content: any): Promise<void> => {
+      getStorage().setItem(location, JSON.stringify(content));
+    },
+    getUserId: () => getConfiguredUserId(options),
+    watch: (location: string, onChange: () => void): (() => void) | null => {
+      if (typeof window === 'undefined') return null;
+
+      // Only fires for writes made in other tabs
+      const handleStorage = (event: StorageEvent): void => {
+        if (event.key === location) onChange();
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    }
+  };
+};
+
+/**
+ * Creates an adapter storing state as JSON in `window.localStorage`
+ * @param {LocalStorageAdapterOptions} [options={}] - Adapter options
+ * @returns {StorageAdapter} The localStorage adapter
+ */
+export const createLocalStorageAdapter = (options: LocalStorageAdapterOptions = {}): StorageAdapter => {
+  return createWebStorageAdapter('localStorage', options, 'tera-file-sync:');
+};
+
+/**
+ * Creates an adapter storing state as JSON in `window.sessionStorage`, kept until the tab is closed
+ * @param {LocalStorageAdapterOptions} [options={}] - Adapter options
+ * @returns {StorageAdapter} The sessionStorage adapter
+ */
+export const createSessionStorageAdapter = (options: LocalStorageAdapterOptions = {}): StorageAdapter => {
+  return createWebStorageAdapter('sessionStorage', options, 'tera-file-sync-session:');
+};
+
+/**
+ * Creates an adapter storing state in an IndexedDB object store
+ * @param {IndexedDbAdapterOptions} [options={}] - Adapter options
+ * @returns {StorageAdapter} The IndexedDB adapter
+ */
+export const createIndexedDbAdapter = (options: IndexedDbAdapterOptions = {}): StorageAdapter => {
+  const prefix = options.prefix ?? '';
+  const databaseName = options.databaseName ?? 'tera-file-sync';
+  const storeName = options.storeName ?? 'state';
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Opens the database once, creating the object store on first use
+   * @returns {Promise<IDBDatabase>} The open database
+   */
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (databasePromise) return databasePromise;
+
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later attempt to reopen if this one failed
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+
+    return databasePromise;
+  };
+
+  /**
+   * Runs a single request against the object store
+   * @param {IDBTransactionMode} mode - The transaction mode
+   * @param {Function} createRequest - Creates the request from the object store
+   * @returns {Promise<any>} The request result
+   */
+  const runRequest = async (mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest): Promise<any> => {
+    const database = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = createRequest(database.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    resolveKey: async (key: string): Promise<string> => `${prefix}${key}`,
+    findKey: async (key: string): Promise<string | null> => `${prefix}${key}`,
+    exists: async (location: string): Promise<boolean> => {
+      return (await runRequest('readonly', store => store.count(location))) > 0;
+    },
+    create: async (location: string): Promise<void> => {
+      await runRequest('readwrite', store => store.put(null, location));
+    },
+    read: async (location: string): Promise<any | null> => {
+      return (await runRequest('readonly', store => store.get(location))) ?? null;
+    },
+    write: async (location: string, content: any): Promise<void> => {
+      await runRequest('readwrite', store => store.put(content, location));
+    },
+    getUserId: () => getConfiguredUserId(options)
+  };
+};
+
+/**
+ * Creates an adapter keeping state in memory, for tests, demos and offline use
+ * @param {LocalStorageAdapterOptions} [options={}] - Adapter options
+ * @param {Record<string, any>} [initialContent={}] - Initial content keyed by location
+ * @returns {StorageAdapter} The in-memory adapter
+ */
+export const createMemoryAdapter = (
+  options: LocalStorageAdapterOptions = {},
+  initialContent: Record<string, any> = {}
+): StorageAdapter => {
+  const prefix = options.prefix ?? '';
+  // Round-trip through JSON so callers can't mutate stored content by reference
+  const entries = new Map<string, string>(
+    Object.entries(initialContent).map(([location, content]) => [location, JSON.stringify(content)])
+  );
+  const watchers = new Map<string, Set<() => void>>();
+
+  return {
+    resolveKey: async (key: string): Promise<string> => `${prefix}${key}`,
+    findKey: async (key: string): Promise<string | null> => `${prefix}${key}`,
+    exists: async (location: string): Promise<boolean> => entries.has(location),
+    create: async (location: string): Promise<void> => {
+      entries.set(location, 'null');
+    },
+    read: async (location: string): Promise<any | null> => {
+      const content = entries.get(location);
+      return content === undefined ? null : JSON.parse(content);
+    },
+    write: async (location: string, content: any): Promise<void> => {
+      entries.set(location, JSON.stringify(content));
+      watchers.get(location)?.forEach(onChange => onChange());
+    },
+    getUserId: () => getConfiguredUserId(options),
+    watch: (location: string, onChange: () => void): (() => void) => {
+      const locationWatchers = watchers.get(location) ?? new Set<() => void>();
+      locationWatchers.add(onChange);
+      watchers.set(location, locationWatchers);
+      return () => {
+        locationWatchers.delete(onChange);
+      };
+    }
+  };
+};
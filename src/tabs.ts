@@ -0,0 +1,159 @@
+import { nanoid } from 'nanoid';
+
+/**
+ * @constant {number}
+ * @description Milliseconds between heartbeats announcing a tab is still open
+ */
+const HEARTBEAT_INTERVAL_MS = 2000;
+
+/**
+ * @constant {number}
+ * @description Milliseconds without a heartbeat after which a tab is considered closed
+ */
+const TAB_TIMEOUT_MS = 6000;
+
+/**
+ * @interface TabInfo
+ * @description What a tab knows about another open tab
+ */
+interface TabInfo {
+  /** When the tab joined the channel, which decides the leader */
+  joinedAt: number;
+  /** When the tab was last heard from */
+  lastSeen: number;
+}
+
+/**
+ * @interface ChannelMessage
+ * @description A message sent between tabs, wrapping the coordinator's own messages around the app's data
+ */
+interface ChannelMessage<T> {
+  kind: 'hello' | 'heartbeat' | 'leave' | 'data';
+  tabId: string;
+  joinedAt: number;
+  data?: T;
+}
+
+/**
+ * @interface TabCoordinatorHandlers
+ * @description Callbacks of a tab coordinator
+ */
+export interface TabCoordinatorHandlers<T> {
+  /** Called with data posted by another tab */
+  onMessage: (data: T, tabId: string) => void;
+  /** Called when this tab becomes or stops being the leader */
+  onLeaderChange: (isLeader: boolean) => void;
+  /** Called when another tab opens */
+  onTabJoined: (tabId: string) => void;
+}
+
+/**
+ * @interface TabCoordinator
+ * @description Exchanges messages with other tabs on a channel and elects one of them as the leader
+ */
+export interface TabCoordinator<T> {
+  /** Id of this tab */
+  tabId: string;
+  /** Whether this tab is the leader, being the longest open tab */
+  isLeader: () => boolean;
+  /** Sends data to every other tab */
+  post: (data: T) => void;
+  /** Leaves the channel, letting another tab take over as leader */
+  close: () => void;
+}
+
+/**
+ * Joins a BroadcastChannel shared by the tabs working on the same data
+ * @param {string} channelName - Name of the channel, identifying the shared data
+ * @param {TabCoordinatorHandlers} handlers - Callbacks for messages and leadership changes
+ * @returns {TabCoordinator|null} The coordinator, or null if BroadcastChannel is unavailable
+ */
+export const createTabCoordinator = <T>(channelName: string, handlers: TabCoordinatorHandlers<T>): TabCoordinator<T> | null => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  const tabId = nanoid();
+  const joinedAt = Date.now();
+  const channel = new BroadcastChannel(channelName);
+  const tabs = new Map<string, TabInfo>();
+  let leader = false;
+  // Older tabs answer our hello, so only lead once they had a heartbeat interval to do so
+  let hasWaitedForTabs = false;
+
+  /**
+   * Sends a message to every other tab
+   * @param {string} kind - The kind of message
+   * @param {T} [data] - The app's data, for data messages
+   */
+  const send = (kind: ChannelMessage<T>['kind'], data?: T): void => {
+    const message: ChannelMessage<T> = { kind, tabId, joinedAt, data };
+    channel.postMessage(message);
+  };
+
+  /**
+   * Re-elects the leader from the tabs still open, calling back if this tab's leadership changed
+   */
+  const updateLeader = (): void => {
+    if (!hasWaitedForTabs) return;
+
+    const now = Date.now();
+    tabs.forEach((tab, id) => {
+      if (now - tab.lastSeen > TAB_TIMEOUT_MS) tabs.delete(id);
+    });
+
+    // The longest open tab leads, so opening another tab doesn't move autosave away from the first
+    const isLeader = Array.from(tabs.entries()).every(([id, tab]) => {
+      return tab.joinedAt > joinedAt || (tab.joinedAt === joinedAt && id > tabId);
+    });
+
+    if (isLeader !== leader) {
+      leader = isLeader;
+      handlers.onLeaderChange(leader);
+    }
+  };
+
+  channel.onmessage = (event: MessageEvent<ChannelMessage<T>>): void => {
+    const message = event.data;
+    if (!message || message.tabId === tabId) return;
+
+    if (message.kind === 'leave') {
+      tabs.delete(message.tabId);
+    } else {
+      tabs.set(message.tabId, { joinedAt: message.joinedAt, lastSeen: Date.now() });
+    }
+
+    if (message.kind === 'hello') {
+      // Answer straight away so the new tab knows of this tab before it may lead
+      send('heartbeat');
+      handlers.onTabJoined(message.tabId);
+    }
+    updateLeader();
+
+    if (message.kind === 'data') handlers.onMessage(message.data as T, message.tabId);
+  };
+
+  const heartbeat = setInterval(() => {
+    hasWaitedForTabs = true;
+    send('heartbeat');
+    updateLeader();
+  }, HEARTBEAT_INTERVAL_MS);
+
+  send('hello');
+
+  return {
+    tabId,
+
+    isLeader: (): boolean => leader,
+
+    post: (data: T): void => {
+      send('data', data);
+    },
+
+    close: (): void => {
+      clearInterval(heartbeat);
+      send('leave');
+      channel.close();
+      tabs.clear();
+      leader = false;
+    }
+  };
+};
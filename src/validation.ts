@@ -0,0 +1,128 @@
+/**
+ * @interface ValidationIssue
+ * @description A single problem found in a store's state
+ */
+export interface ValidationIssue {
+  /** Path of the invalid value within the state, empty for the state itself */
+  path: (string | number)[];
+  /** Description of the problem */
+  message: string;
+}
+
+/**
+ * @interface ValidationResult
+ * @description Outcome of validating a store's state
+ */
+export interface ValidationResult {
+  /** Whether the state is valid */
+  valid: boolean;
+  /** The state to use when valid, if the validator parsed or transformed it (defaults to the input) */
+  value?: any;
+  /** Problems found when invalid */
+  issues?: ValidationIssue[];
+}
+
+/**
+ * @typedef {Function} StateValidator
+ * @description Checks a store's state, synchronously so stores can be validated as they are hydrated
+ */
+export type StateValidator = (state: any) => ValidationResult;
+
+/**
+ * @typedef {('reject'|'strip'|'defaults'|'quarantine')} ValidationFailureAction
+ * @description What to do with invalid state: refuse it, drop unknown top-level keys, reset invalid
+ * top-level keys to their defaults, or move it into a side file and continue without it
+ */
+export type ValidationFailureAction = 'reject' | 'strip' | 'defaults' | 'quarantine';
+
+/**
+ * @interface ZodLikeSchema
+ * @description The part of a Zod schema used for validation
+ */
+export interface ZodLikeSchema {
+  safeParse: (value: unknown) => { success: boolean; data?: any; error?: { issues: { path: (string | number)[]; message: string }[] } };
+}
+
+/**
+ * @interface StandardSchema
+ * @description The part of a Standard Schema (https://standardschema.dev) used for validation
+ */
+export interface StandardSchema {
+  '~standard': {
+    validate: (value: unknown) => StandardSchemaResult | Promise<StandardSchemaResult>;
+  };
+}
+
+/**
+ * @interface StandardSchemaResult
+ * @description Result of validating with a Standard Schema
+ */
+interface StandardSchemaResult {
+  value?: any;
+  issues?: readonly { message: string; path?: readonly (PropertyKey | { key: PropertyKey })[] }[];
+}
+
+/**
+ * Converts path segments from a schema library to plain keys
+ * @param {Array} [path=[]] - The path segments, as keys or objects with a key
+ * @returns {(string|number)[]} The path keys
+ */
+const toPath = (path: readonly any[] = []): (string | number)[] => {
+  return path.map(segment => {
+    const key = segment && typeof segment === 'object' ? segment.key : segment;
+    return typeof key === 'number' ? key : String(key);
+  });
+};
+
+/**
+ * Creates a validator from a Zod schema
+ * @param {ZodLikeSchema} schema - The Zod schema
+ * @returns {StateValidator} The validator
+ */
+export const zodValidator = (schema: ZodLikeSchema): StateValidator => state => {
+  const result = schema.safeParse(state);
+  if (result.success) return { valid: true, value: result.data };
+
+  return {
+    valid: false,
+    issues: (result.error?.issues ?? []).map(issue => ({ path: toPath(issue.path), message: issue.message }))
+  };
+};
+
+/**
+ * Creates a validator from a Valibot schema
+ * @param {Object} schema - The Valibot schema
+ * @param {Function} safeParse - Valibot's `safeParse` function
+ * @returns {StateValidator} The validator
+ */
+export const valibotValidator = <TSchema>(
+  schema: TSchema,
+  safeParse: (schema: TSchema, value: unknown) => { success: boolean; output: any; issues?: { message: string; path?: { key: unknown }[] }[] }
+): StateValidator => state => {
+  const result = safeParse(schema, state);
+  if (result.success) return { valid: true, value: result.output };
+
+  return {
+    valid: false,
+    issues: (result.issues ?? []).map(issue => ({ path: toPath(issue.path), message: issue.message }))
+  };
+};
+
+/**
+ * Creates a validator from any Standard Schema, such as recent Zod, Valibot or ArkType schemas
+ * @param {StandardSchema} schema - The schema
+ * @returns {StateValidator} The validator
+ * @throws {Error} When validating, if the schema validates asynchronously
+ */
+export const standardSchemaValidator = (schema: StandardSchema): StateValidator => state => {
+  const result = schema['~standard'].validate(state);
+  if (result instanceof Promise) {
+    throw new Error('Asynchronous schemas are not supported for state validation');
+  }
+  if (!result.issues) return { valid: true, value: result.value };
+
+  return {
+    valid: false,
+    issues: result.issues.map(issue => ({ path: toPath(issue.path), message: issue.message }))
+  };
+};